@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { ChangeEvent } from 'react'
 import { v4 as uuidv4 } from 'uuid'
+import { saveAs } from 'file-saver'
 import './App.css'
 
 import { VideoUploader } from './components/VideoUploader'
@@ -13,39 +14,119 @@ import { ProcessingOverlay } from './components/ProcessingOverlay'
 import { WorkspaceView } from './components/WorkspaceView'
 import { GettingStartedPanels } from './components/GettingStartedPanels'
 import { MovieGenerator } from './components/MovieGenerator'
+import { ProjectBrowser } from './components/ProjectBrowser'
+import { StorageReport } from './components/StorageReport'
+import { HistoryPanel } from './components/HistoryPanel'
+import { TraceSettingsDialog } from './components/TraceSettingsDialog'
+import { AutoTraceDialog } from './components/AutoTraceDialog'
+import { VideoImportDialog } from './components/VideoImportDialog'
+import { FrameImportDialog } from './components/FrameImportDialog'
 import { useFfmpeg, fetchFile } from './hooks/useFfmpeg'
-import { applyImageLayerToFrames, cloneVisibleImageLayers, createLayer } from './utils/project'
-import { composeFrames, createBlankCanvasFrame, createBackgroundImage } from './utils/images'
-import { loadImageElement } from './utils/imageHelpers'
-import { generateOutlineMask } from './utils/outline'
+import { useProjectHistory } from './hooks/useProjectHistory'
+import { useProjectAutosave } from './hooks/useProjectAutosave'
+import { useOnionSkin } from './hooks/useOnionSkin'
+import {
+  applyImageLayerToFrames,
+  cloneFrame,
+  cloneVisibleImageLayers,
+  addImageLayerAboveImages,
+  createLayer,
+  DEFAULT_FPS,
+  getFrameSelection,
+  getNextVideoLayerName,
+  getProjectFps,
+  getTraceSettings,
+  getTraceNeighbourImageIds,
+  getTraceSourceImageId,
+  isAutoTraceLayer,
+  moveFrames,
+  renumberFrames,
+  replaceAutoTraceLayer,
+} from './utils/project'
+import { composeFrames, createBlankCanvasFrame, moveFrameImagesToLayer } from './utils/images'
+import {
+  buildConcatList,
+  buildGifArgs,
+  canvasToPngBytes,
+  CONCAT_LIST_NAME,
+  concatInputArgs,
+  createPngSequenceZip,
+  readOutputBlob,
+  renderExportFrame,
+} from './utils/export'
+import { getFrameDuration } from './utils/timing'
+import { cancelTracing, isTraceCancelled, traceImage } from './utils/autoTraceWorker'
+import { buildTrimArgs, buildVideoFilter, spliceProjectAudio } from './utils/videoImport'
+import { SEQUENCE_ACCEPT, collectSequenceEntries, writeSequenceFrames } from './utils/sequenceImport'
+import { getOnionFrames } from './utils/onionSkin'
 import logo from './assets/logo.png'
-import { clearProject, loadProject, saveProject } from './utils/storage'
+import {
+  createProjectId,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  loadProject,
+  renameProject,
+  saveProject,
+} from './utils/storage'
+import { ARCHIVE_EXTENSION, exportProjectArchive, importProjectArchive } from './utils/archive'
+import { collectProjectAssetIds, getAssetBlob, getAssetUrl, putAsset, releaseAssets } from './utils/assets'
 import type {
   AnimatorProject,
+  AssetId,
+  AutoTraceJob,
+  AutoTraceRunOptions,
+  BrushDynamics,
   DrawingLayer,
   DrawingStroke,
-  DrawingTool,
+  EditorTool,
+  ExportOptions,
   FrameData,
+  FrameImportOptions,
+  ProjectSummary,
+  TraceSettings,
+  VideoImportOptions,
 } from './types'
 
 function App() {
   const { loadFfmpeg, isLoading: isFfmpegLoading } = useFfmpeg()
-  const [project, setProject] = useState<AnimatorProject | null>(null)
+  const history = useProjectHistory()
+  const { project, commit: commitProject, update: updateProject, reset: resetProject } = history
+  const {
+    status: saveStatus,
+    flush: flushPendingSave,
+    markPersisted,
+    discard: discardPendingSave,
+  } = useProjectAutosave(project)
   const [activeFrameId, setActiveFrameId] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [statusMessage, setStatusMessage] = useState('Idle')
-  const [tool, setTool] = useState<DrawingTool>('pencil')
+  const [tool, setTool] = useState<EditorTool>('pencil')
   const [brushColor, setBrushColor] = useState('#ff0066')
   const [brushSize, setBrushSize] = useState(6)
-  const [onionSkin, setOnionSkin] = useState(true)
+  const [brushDynamics, setBrushDynamics] = useState<BrushDynamics>({ width: true, opacity: false })
+  const { settings: onionSkin, updateSettings: updateOnionSkin } = useOnionSkin()
   const [isStageFullscreen, setIsStageFullscreen] = useState(false)
 
   const [isRestoring, setIsRestoring] = useState(false)
   const [restoreProgress, setRestoreProgress] = useState(0)
   const [isClearConfirmVisible, setIsClearConfirmVisible] = useState(false)
-  const [redoStacks, setRedoStacks] = useState<Record<string, DrawingStroke[]>>({})
   const [autoTraceProgress, setAutoTraceProgress] = useState({ current: 0, total: 0 })
-  const [restorePrompt, setRestorePrompt] = useState<AnimatorProject | null>(null)
+  const [projectLibrary, setProjectLibrary] = useState<ProjectSummary[]>([])
+  const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false)
+  const [isStorageReportOpen, setIsStorageReportOpen] = useState(false)
+  const [isTraceSettingsOpen, setIsTraceSettingsOpen] = useState(false)
+  const [isAutoTraceDialogOpen, setIsAutoTraceDialogOpen] = useState(false)
+  const [pendingVideoFile, setPendingVideoFile] = useState<File | null>(null)
+  const [pendingFrameFiles, setPendingFrameFiles] = useState<File[] | null>(null)
+  const [selectedFrameIds, setSelectedFrameIds] = useState<string[]>([])
+  const [frameClipboard, setFrameClipboard] = useState<FrameData[] | null>(null)
+  const [autoTraceOptions, setAutoTraceOptions] = useState<AutoTraceRunOptions>({
+    scope: 'all',
+    rangeStart: 1,
+    rangeEnd: 0,
+    replaceExisting: false,
+  })
   const [backgroundColorPrompt, setBackgroundColorPrompt] = useState(false)
   const [showMovieGenerator, setShowMovieGenerator] = useState(false)
   const autoTraceCancelledRef = useRef(false)
@@ -71,37 +152,61 @@ function App() {
   // Preload all frame images for smooth playback
   useEffect(() => {
     if (project?.frames) {
-      const urls: string[] = []
+      const assetIds: AssetId[] = []
       project.frames.forEach(frame => {
-        if (frame.imageUrl) urls.push(frame.imageUrl)
-        if (frame.outlineUrl) urls.push(frame.outlineUrl)
+        if (frame.imageId) assetIds.push(frame.imageId)
+        if (frame.outlineId) assetIds.push(frame.outlineId)
         frame.layers.forEach(layer => {
-          if (layer.imageUrl) urls.push(layer.imageUrl)
+          if (layer.imageId) assetIds.push(layer.imageId)
         })
       })
-      preloadImages(urls)
+      preloadImages(assetIds)
     }
   }, [project?.frames])
   
+  // Free object URLs and blobs once neither the open project nor its undo history reference them
+  useEffect(() => {
+    const snapshots = [...history.past, ...history.future].map((entry) => entry.snapshot)
+    releaseAssets(collectProjectAssetIds(project ? [project, ...snapshots] : snapshots))
+  }, [project, history.past, history.future])
+
   const pendingImageScopeRef = useRef<'frame' | 'all'>('frame')
 
+  const refreshProjectLibrary = useCallback(async () => {
+    const projects = await listProjects()
+    setProjectLibrary(projects)
+    return projects
+  }, [])
+
   useEffect(() => {
-    const checkForSavedProject = async () => {
-      const saved = await loadProject()
-      if (saved && saved.frames.length) {
-        setRestorePrompt(saved)
+    const checkForSavedProjects = async () => {
+      const projects = await refreshProjectLibrary()
+      if (projects.length) {
+        setIsProjectBrowserOpen(true)
       }
     }
-    checkForSavedProject()
-  }, [])
-
-  const handleRestoreProject = useCallback(async () => {
-    if (!restorePrompt) return
-    setRestorePrompt(null)
+    checkForSavedProjects()
+  }, [refreshProjectLibrary])
+
+  const handleOpenProjectBrowser = useCallback(() => {
+    // Write out pending edits first so the open project's card is current
+    void flushPendingSave().then(refreshProjectLibrary)
+    setIsProjectBrowserOpen(true)
+  }, [flushPendingSave, refreshProjectLibrary])
+
+  const handleOpenProject = useCallback(async (projectId: string) => {
+    setIsProjectBrowserOpen(false)
+    if (project?.id === projectId) return
+    const saved = await loadProject(projectId)
+    if (!saved || !saved.frames.length) {
+      setStatusMessage('Could not open that project')
+      void refreshProjectLibrary()
+      return
+    }
     setIsRestoring(true)
     setRestoreProgress(0)
     // Animate progress smoothly (at least 2s, cap at 4s)
-    const baseDuration = restorePrompt.frames.length * 5
+    const baseDuration = saved.frames.length * 5
     const duration = Math.max(2000, Math.min(baseDuration, 4000))
     const steps = 20
     const stepTime = duration / steps
@@ -109,34 +214,63 @@ function App() {
       await new Promise((resolve) => setTimeout(resolve, stepTime))
       setRestoreProgress(Math.round((i / steps) * 100))
     }
-    setProject(restorePrompt)
-    setActiveFrameId(restorePrompt.frames[0].id)
-    setStatusMessage(`Restored "${restorePrompt.name || 'Untitled project'}" from IndexedDB`)
+    markPersisted(saved)
+    resetProject(saved)
+    setActiveFrameId(saved.frames[0].id)
+    setStatusMessage(`Restored "${saved.name || 'Untitled project'}" from IndexedDB`)
     setIsRestoring(false)
-  }, [restorePrompt])
+  }, [project?.id, refreshProjectLibrary, markPersisted, resetProject])
+
+  const handleDuplicateProject = useCallback(async (projectId: string) => {
+    const copy = await duplicateProject(projectId)
+    if (copy) {
+      setStatusMessage(`Duplicated as "${copy.name}"`)
+    }
+    await refreshProjectLibrary()
+  }, [refreshProjectLibrary])
 
-  const handleDeclineRestore = useCallback(() => {
-    setRestorePrompt(null)
+  const handleRenameProject = useCallback(async (projectId: string, name: string) => {
+    if (project?.id === projectId) {
+      commitProject('Rename project', (current) => ({ ...current, name, updatedAt: Date.now() }))
+    }
+    await renameProject(projectId, name)
+    await refreshProjectLibrary()
+  }, [project?.id, commitProject, refreshProjectLibrary])
+
+  const handleDeleteProject = useCallback(async (projectId: string) => {
+    discardPendingSave(projectId)
+    await deleteProject(projectId)
+    if (project?.id === projectId) {
+      resetProject(null)
+      setActiveFrameId(null)
+    }
+    setStatusMessage('Deleted project')
+    await refreshProjectLibrary()
+  }, [project?.id, refreshProjectLibrary, discardPendingSave, resetProject])
+
+  const handleNewProject = useCallback(() => {
+    setIsProjectBrowserOpen(false)
+    resetProject(null)
+    setActiveFrameId(null)
     setStatusMessage('Starting fresh')
-  }, [])
+  }, [resetProject])
 
   const handleProjectNameChange = useCallback((name: string) => {
-    setProject((current) => {
-      if (!current) return current
-      const updatedProject: AnimatorProject = {
+    commitProject(
+      'Rename project',
+      (current) => ({
         ...current,
         name,
         updatedAt: Date.now(),
-      }
-      void saveProject(updatedProject)
-      return updatedProject
-    })
-  }, [])
+      }),
+      { coalesceKey: 'rename-project' },
+    )
+  }, [commitProject])
 
-  const handleClearFrame = useCallback(() => {
+  const handleClearFrame = useCallback(async () => {
     if (!activeFrameId) return
-    setProject((current) => {
-      if (!current) return current
+    const blankFrame = await createBlankCanvasFrame(project?.backgroundColor || '#0f172a')
+    commitProject('Clear frame', (current) => {
       const frameIndex = current.frames.findIndex((frame) => frame.id === activeFrameId)
       if (frameIndex === -1) return current
 
@@ -145,20 +279,20 @@ function App() {
       
       // If project doesn't have backgroundColor saved, we need to detect it
       if (!backgroundColor) {
-        // Since we can't easily detect the actual color from the imageUrl data URL,
+        // Since we can't easily detect the actual color from the background image,
         // we'll check if there are any existing frames with the same background
         // and use a default that matches common selections
         backgroundColor = '#0f172a' // Default to dark blue
         
         // If the user has drawn on this frame, we should preserve the original background
-        // by not changing it - just create a new frame with the same imageUrl
-        if (current.frames[frameIndex].imageUrl) {
-          // Keep the same background by using the existing imageUrl
+        // by not changing it - just create a new frame with the same image
+        if (current.frames[frameIndex].imageId) {
+          // Keep the same background by using the existing image
           const freshFrame: FrameData = {
-            ...createBlankCanvasFrame(backgroundColor),
+            ...blankFrame,
             id: activeFrameId,
             frameNumber: current.frames[frameIndex].frameNumber,
-            imageUrl: current.frames[frameIndex].imageUrl, // Preserve existing background
+            imageId: current.frames[frameIndex].imageId, // Preserve existing background
             width: current.frames[frameIndex].width,
             height: current.frames[frameIndex].height,
           }
@@ -171,14 +305,13 @@ function App() {
             frames: updatedFrames,
             updatedAt: Date.now(),
           }
-          void saveProject(updatedProject)
           return updatedProject
         }
       }
 
       // Create a completely fresh frame with the background color
       const freshFrame: FrameData = {
-        ...createBlankCanvasFrame(backgroundColor),
+        ...blankFrame,
         id: activeFrameId,
         frameNumber: current.frames[frameIndex].frameNumber,
       }
@@ -193,15 +326,15 @@ function App() {
         frames: updatedFrames,
         updatedAt: Date.now(),
       }
-      void saveProject(updatedProject)
       return updatedProject
     })
     setStatusMessage('Frame cleared to blank canvas')
-  }, [activeFrameId])
+  }, [activeFrameId, project?.backgroundColor, commitProject])
 
   useEffect(() => {
     if (!project || !project.frames.length) return
-    if (!activeFrameId) {
+    // Undo can remove the active frame (e.g. undoing an insert), so fall back to the first one
+    if (!activeFrameId || !project.frames.some((frame) => frame.id === activeFrameId)) {
       setActiveFrameId(project.frames[0].id)
     }
   }, [project, activeFrameId])
@@ -211,22 +344,66 @@ function App() {
     return project.frames.find((frame) => frame.id === activeFrameId) ?? null
   }, [project, activeFrameId])
 
-  const activeLayer = useMemo(() => {
-    if (!activeFrame) return null
-    return activeFrame.layers.find((layer) => layer.id === activeFrame.activeLayerId) ?? null
-  }, [activeFrame])
+  const projectFps = getProjectFps(project)
 
-  const activeRedoKey = activeFrame && activeLayer ? `${activeFrame.id}:${activeLayer.id}` : null
-  const canUndo = Boolean(activeLayer?.strokes.length)
-  const canRedo = activeRedoKey ? Boolean(redoStacks[activeRedoKey]?.length) : false
+  const handleUndo = useCallback(() => {
+    const entry = history.past[history.past.length - 1]
+    if (!entry) return
+    history.undo()
+    setStatusMessage(`Undid ${entry.label.toLowerCase()}`)
+  }, [history])
+
+  const handleRedo = useCallback(() => {
+    const entry = history.future[0]
+    if (!entry) return
+    history.redo()
+    setStatusMessage(`Redid ${entry.label.toLowerCase()}`)
+  }, [history])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (
+        target &&
+        (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      ) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        handleUndo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        handleRedo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  const handleFpsChange = useCallback((fps: number) => {
+    commitProject('Change frame rate', (current) => {
+      if (current.fps === fps) return current
+      return {
+        ...current,
+        fps,
+        updatedAt: Date.now(),
+      }
+    })
+    setStatusMessage(`Project frame rate set to ${fps} FPS`)
+  }, [commitProject])
 
   const activeFrameIndex = useMemo(() => {
     if (!project || !activeFrameId) return -1
     return project.frames.findIndex((frame) => frame.id === activeFrameId)
   }, [project, activeFrameId])
 
-  const prevFrame =
-    activeFrameIndex > 0 && project ? project.frames[activeFrameIndex - 1] : null
+  const onionFrames = useMemo(
+    () => (project ? getOnionFrames(project.frames, activeFrameIndex, onionSkin) : []),
+    [project, activeFrameIndex, onionSkin],
+  )
 
   const handleGenerateMovie = useCallback(() => {
     console.log('handleGenerateMovie called')
@@ -237,7 +414,10 @@ function App() {
     console.log('showMovieGenerator should now be true')
   }, [project])
 
-  const handleMovieGenerate = useCallback(async (layerSettings: Record<string, boolean>) => {
+  const handleMovieGenerate = useCallback(async (
+    layerSettings: Record<string, boolean>,
+    options: ExportOptions,
+  ) => {
     if (!project || project.frames.length === 0) {
       setStatusMessage('No frames to generate movie')
       return
@@ -245,7 +425,31 @@ function App() {
 
     setShowMovieGenerator(false)
     setIsProcessing(true)
-    setStatusMessage('Generating movie...')
+
+    if (options.kind === 'png-sequence') {
+      setStatusMessage('Rendering PNG sequence...')
+      try {
+        const projectName = project.name || 'Untitled project'
+        const zipBlob = await createPngSequenceZip(
+          project.frames,
+          layerSettings,
+          { name: projectName, fps: getProjectFps(project) },
+          (current, total) => setStatusMessage(`Rendering frame ${current} of ${total}…`),
+        )
+        saveAs(zipBlob, `${projectName.replace(/[^\w-]+/g, '_')}_frames.zip`)
+        setStatusMessage('PNG sequence exported!')
+      } catch (error) {
+        console.error('Error exporting PNG sequence:', error)
+        setStatusMessage('Failed to export PNG sequence')
+      } finally {
+        setIsProcessing(false)
+      }
+      return
+    }
+
+    const isGif = options.kind === 'gif'
+    const fps = getProjectFps(project)
+    setStatusMessage(isGif ? 'Generating GIF...' : 'Generating movie...')
 
     try {
       const ffmpegInstance = await loadFfmpeg()
@@ -254,183 +458,122 @@ function App() {
       const frameFileNames: string[] = []
       
       for (let i = 0; i < project.frames.length; i++) {
-        const frame = project.frames[i]
+        const canvas = await renderExportFrame(project.frames[i], layerSettings)
+        const frameFileName = `frame_${i.toString().padStart(4, '0')}.png`
+        await ffmpegInstance.writeFile(frameFileName, await canvasToPngBytes(canvas))
+        frameFileNames.push(frameFileName)
+      }
+
+      // Per-frame holds are expressed through the concat demuxer's per-file durations
+      await ffmpegInstance.writeFile(
+        CONCAT_LIST_NAME,
+        buildConcatList(frameFileNames, project.frames.map(getFrameDuration), fps),
+      )
+      frameFileNames.push(CONCAT_LIST_NAME)
+
+      let finalFileName: string
+      let downloadName: string
+      let outputBlob: Blob
+      let audioFailed = false
+
+      if (isGif) {
+        finalFileName = `movie_${Date.now()}.gif`
+        downloadName = finalFileName
+        await ffmpegInstance.exec(buildGifArgs(concatInputArgs(), finalFileName, fps, options.gif))
+        outputBlob = await readOutputBlob(ffmpegInstance, finalFileName, 'image/gif')
+      } else {
+        // Generate video using ffmpeg
+        // Use vf scale to ensure even dimensions (required for h264/yuv420p)
+        const outputFileName = `movie_${Date.now()}.mp4`
+        const tempVideoName = 'temp_video.mp4'
         
-        // Create canvas with frame content
-        const canvas = document.createElement('canvas')
-        canvas.width = frame.width || 720
-        canvas.height = frame.height || 405
-        const ctx = canvas.getContext('2d')
+        // First create video without audio
+        await ffmpegInstance.exec([
+          ...concatInputArgs(),
+          '-vf', `fps=${fps},scale=trunc(iw/2)*2:trunc(ih/2)*2`,
+          '-c:v', 'libx264',
+          '-pix_fmt', 'yuv420p',
+          '-crf', '23',
+          tempVideoName
+        ])
         
-        if (ctx) {
-          // Clear canvas with white background
-          ctx.fillStyle = '#ffffff'
-          ctx.fillRect(0, 0, canvas.width, canvas.height)
-          
-          // Draw layers based on layer name settings
-          // Layers are drawn in order (first layer is bottom, last is top)
-          for (const layer of frame.layers) {
-            const isVisible = layerSettings[layer.name] ?? layer.visible
-            if (!isVisible) {
-              console.log(`Skipping layer "${layer.name}" (not visible in settings)`)
-              continue
-            }
+        // If we have audio, merge it with the video
+        finalFileName = tempVideoName
+        if (project.audioId) {
+          try {
+            const audioBlob = await getAssetBlob(project.audioId)
+            const audioBuffer = await audioBlob.arrayBuffer()
+            await ffmpegInstance.writeFile('audio.mp3', new Uint8Array(audioBuffer))
             
-            // Draw layer image if exists (this includes Video Layer and Auto Trace)
-            if (layer.imageUrl) {
-              console.log(`Drawing layer "${layer.name}" with imageUrl (${layer.imageUrl.substring(0, 50)}...)`)
-              const layerImg = await loadImageElement(layer.imageUrl)
-              
-              // For Auto Trace layers, we need to extract the alpha channel as black lines
-              // because the image stores outlines in the alpha channel with white RGB
-              if (layer.name.startsWith('Auto Trace')) {
-                // Create a temporary canvas to process the alpha channel
-                const tempCanvas = document.createElement('canvas')
-                tempCanvas.width = layerImg.width
-                tempCanvas.height = layerImg.height
-                const tempCtx = tempCanvas.getContext('2d')
-                if (tempCtx) {
-                  tempCtx.drawImage(layerImg, 0, 0)
-                  const imageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height)
-                  const data = imageData.data
-                  // Convert alpha channel to black lines on white background
-                  for (let p = 0; p < data.length; p += 4) {
-                    const alpha = data[p + 3] / 255
-                    // Invert: low alpha = black outline, high alpha = white background
-                    const gray = Math.round(alpha * 255)
-                    data[p] = gray     // R
-                    data[p + 1] = gray // G
-                    data[p + 2] = gray // B
-                    data[p + 3] = 255  // Full opacity
-                  }
-                  tempCtx.putImageData(imageData, 0, 0)
-                  ctx.drawImage(tempCanvas, 0, 0)
-                }
-              } else {
-                ctx.drawImage(layerImg, 0, 0)
-              }
-            } else {
-              console.log(`Layer "${layer.name}" has no imageUrl, checking strokes...`)
-            }
+            // Merge video and audio
+            await ffmpegInstance.exec([
+              '-i', tempVideoName,
+              '-i', 'audio.mp3',
+              '-c:v', 'copy',
+              '-c:a', 'aac',
+              '-shortest',  // End when shortest stream ends
+              outputFileName
+            ])
             
-            // Draw layer strokes
-            for (const stroke of layer.strokes) {
-              ctx.save()
-              ctx.lineJoin = 'round'
-              ctx.lineCap = 'round'
-              ctx.lineWidth = stroke.size
-              if (stroke.mode === 'eraser') {
-                ctx.globalCompositeOperation = 'destination-out'
-                ctx.strokeStyle = 'rgba(0,0,0,1)'
-              } else {
-                ctx.globalCompositeOperation = 'source-over'
-                ctx.strokeStyle = stroke.color
-              }
-              ctx.beginPath()
-              const [firstX, firstY, ...rest] = stroke.points
-              ctx.moveTo(firstX, firstY)
-              for (let j = 0; j < rest.length; j += 2) {
-                ctx.lineTo(rest[j], rest[j + 1])
-              }
-              ctx.stroke()
-              ctx.restore()
-            }
+            finalFileName = outputFileName
+            await ffmpegInstance.deleteFile('audio.mp3')
+            await ffmpegInstance.deleteFile(tempVideoName)
+          } catch (audioError) {
+            console.error('Failed to add audio, exporting video only:', audioError)
+            audioFailed = true
+            finalFileName = tempVideoName
           }
         }
-        
-        // Save frame to ffmpeg
-        const frameFileName = `frame_${i.toString().padStart(4, '0')}.png`
-        const frameDataUrl = canvas.toDataURL('image/png')
-        const frameResponse = await fetch(frameDataUrl)
-        const frameBuffer = await frameResponse.arrayBuffer()
-        await ffmpegInstance.writeFile(frameFileName, new Uint8Array(frameBuffer))
-        frameFileNames.push(frameFileName)
-      }
-      
-      // Generate video using ffmpeg
-      // Use vf scale to ensure even dimensions (required for h264/yuv420p)
-      const outputFileName = `movie_${Date.now()}.mp4`
-      const tempVideoName = 'temp_video.mp4'
-      
-      // First create video without audio
-      await ffmpegInstance.exec([
-        '-framerate', '12',
-        '-i', 'frame_%04d.png',
-        '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
-        '-c:v', 'libx264',
-        '-pix_fmt', 'yuv420p',
-        '-crf', '23',
-        tempVideoName
-      ])
-      
-      // If we have audio, merge it with the video
-      let finalVideoName = tempVideoName
-      if (project.audioUrl) {
-        try {
-          // Convert audio data URL to file
-          const audioResponse = await fetch(project.audioUrl)
-          const audioBuffer = await audioResponse.arrayBuffer()
-          await ffmpegInstance.writeFile('audio.mp3', new Uint8Array(audioBuffer))
-          
-          // Merge video and audio
-          await ffmpegInstance.exec([
-            '-i', tempVideoName,
-            '-i', 'audio.mp3',
-            '-c:v', 'copy',
-            '-c:a', 'aac',
-            '-shortest',  // End when shortest stream ends
-            outputFileName
-          ])
-          
-          finalVideoName = outputFileName
-          await ffmpegInstance.deleteFile('audio.mp3')
-          await ffmpegInstance.deleteFile(tempVideoName)
-        } catch (audioError) {
-          console.log('Failed to add audio, exporting video only:', audioError)
-          finalVideoName = tempVideoName
-        }
-      }
-      
-      // Get the video data
-      const videoData = await ffmpegInstance.readFile(finalVideoName) as Uint8Array
-      console.log('Video data size:', videoData.length, 'bytes')
-      
-      if (videoData.length === 0) {
-        throw new Error('FFmpeg produced empty video file')
+
+        outputBlob = await readOutputBlob(ffmpegInstance, finalFileName, 'video/mp4')
+        downloadName = outputFileName
       }
-      
-      const videoDataCopy = new Uint8Array(videoData)
-      const videoBlob = new Blob([videoDataCopy], { type: 'video/mp4' })
-      const videoUrl = URL.createObjectURL(videoBlob)
-      
-      // Download the video
-      const a = document.createElement('a')
-      a.href = videoUrl
-      a.download = outputFileName
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(videoUrl)
+
+      saveAs(outputBlob, downloadName)
       
       // Clean up frame files
       for (const fileName of frameFileNames) {
         await ffmpegInstance.deleteFile(fileName)
       }
       try {
-        await ffmpegInstance.deleteFile(finalVideoName)
+        await ffmpegInstance.deleteFile(finalFileName)
       } catch { /* ignore cleanup errors */ }
       
-      setStatusMessage('Movie generated successfully!')
+      if (isGif) {
+        setStatusMessage('GIF generated successfully!')
+      } else {
+        setStatusMessage(audioFailed ? 'Movie generated without audio (adding it failed)' : 'Movie generated successfully!')
+      }
     } catch (error) {
       console.error('Error generating movie:', error)
-      setStatusMessage('Failed to generate movie')
+      setStatusMessage(isGif ? 'Failed to generate GIF' : 'Failed to generate movie')
     } finally {
       setIsProcessing(false)
     }
-  }, [project])
+  }, [project, loadFfmpeg])
 
   const handleVideoSelected = useCallback(
-    async (file: File) => {
+    async (file: File, requestedOptions: VideoImportOptions) => {
+      // Without an open project there is nothing to add to, so the clip starts a new one
+      const target = requestedOptions.placement !== 'new-project' ? project : null
+      const startIndex = target
+        ? Math.min(Math.max(0, requestedOptions.position - 1), target.frames.length)
+        : 0
+      const layerFrameCount = target ? target.frames.length - startIndex : 0
+      const options: VideoImportOptions =
+        target && requestedOptions.placement === 'add-layer'
+          ? // Footage past the last frame would have nowhere to go, so it is not decoded at all
+            {
+              ...requestedOptions,
+              end: Math.min(requestedOptions.end, requestedOptions.start + layerFrameCount / requestedOptions.fps),
+            }
+          : requestedOptions
+      const { fps } = options
+      const trimArgs = buildTrimArgs(options)
+      // Frames added to an open project are letterboxed onto its frame size, whichever way they go in
+      const fitTo = target?.frames.length
+        ? { width: target.frames[0].width, height: target.frames[0].height }
+        : undefined
       setIsProcessing(true)
       setStatusMessage('Preparing ffmpeg…')
       try {
@@ -440,36 +583,34 @@ function App() {
         
         // Extract audio first
         setStatusMessage('Extracting audio…')
-        let audioUrl: string | undefined
+        let hasClipAudio = false
         try {
           await ffmpegInstance.exec([
+            ...trimArgs,
             '-i', inputName,
             '-vn',           // No video
             '-acodec', 'libmp3lame',
             '-q:a', '4',     // Quality (0-9, lower is better)
-            'audio.mp3',
+            'clip-audio.mp3',
           ])
-          const audioData = await ffmpegInstance.readFile('audio.mp3') as Uint8Array
-          if (audioData.length > 0) {
-            const audioBlob = new Blob([new Uint8Array(audioData)], { type: 'audio/mp3' })
-            audioUrl = await new Promise<string>((resolve) => {
-              const reader = new FileReader()
-              reader.onloadend = () => resolve(reader.result as string)
-              reader.readAsDataURL(audioBlob)
-            })
+          const audioData = await ffmpegInstance.readFile('clip-audio.mp3') as Uint8Array
+          hasClipAudio = audioData.length > 0
+          if (hasClipAudio) {
             console.log('Audio extracted:', audioData.length, 'bytes')
+          } else {
+            await ffmpegInstance.deleteFile('clip-audio.mp3')
           }
-          await ffmpegInstance.deleteFile('audio.mp3')
         } catch (audioError) {
           console.log('No audio track found or extraction failed:', audioError)
         }
         
-        setStatusMessage('Extracting frames at 12 FPS…')
+        setStatusMessage(`Extracting frames at ${fps} FPS…`)
         await ffmpegInstance.exec([
+          ...trimArgs,
           '-i',
           inputName,
           '-vf',
-          'fps=12,scale=720:-1:flags=lanczos',
+          buildVideoFilter(options, fitTo),
           '-qscale:v',
           '2',
           'frame_%04d.png',
@@ -488,33 +629,83 @@ function App() {
         }
 
         setStatusMessage('Loading frames into canvas memory…')
-        const frames = await composeFrames(files, ffmpegInstance)
-        
+        const composed = await composeFrames(files, ffmpegInstance)
+        const frames = target && options.placement === 'add-layer' ? composed.slice(0, layerFrameCount) : composed
+
+        let audioId: AssetId | undefined
+        if (target) {
+          setStatusMessage('Splicing audio…')
+          audioId = await spliceProjectAudio(ffmpegInstance, {
+            project: target,
+            startIndex,
+            clipAudio: hasClipAudio ? 'clip-audio.mp3' : null,
+            clipDuration: frames.length / fps,
+            placement: options.placement === 'add-layer' ? 'add-layer' : 'insert-frames',
+          })
+        } else if (hasClipAudio) {
+          const audioData = await ffmpegInstance.readFile('clip-audio.mp3') as Uint8Array
+          audioId = await putAsset(new Blob([new Uint8Array(audioData)], { type: 'audio/mp3' }))
+        }
+        if (hasClipAudio) {
+          await ffmpegInstance.deleteFile('clip-audio.mp3')
+        }
+
+        if (target && options.placement === 'add-layer') {
+          const layerName = getNextVideoLayerName(target.frames)
+          const layersByFrame = new Map(
+            frames.map((clipFrame, index) => [
+              target.frames[startIndex + index].id,
+              { ...createLayer(layerName), imageId: clipFrame.imageId },
+            ]),
+          )
+          commitProject('Add video layer', (current) => ({
+            ...current,
+            frames: current.frames.map((frame) => {
+              const videoLayer = layersByFrame.get(frame.id)
+              return videoLayer ? addImageLayerAboveImages(frame, videoLayer) : frame
+            }),
+            audioId,
+            updatedAt: Date.now(),
+          }))
+          setActiveFrameId(target.frames[startIndex].id)
+          setStatusMessage(`${layerName} added to frames ${startIndex + 1}–${startIndex + frames.length}`)
+          return
+        }
+
         // Use existing project's background color, or default to white
         const backgroundColor = project?.backgroundColor || '#ffffff'
-        
-        frames.forEach((frame) => {
-          const videoLayer = {
-            ...createLayer('Video Layer 1'),
-            imageUrl: frame.imageUrl,
-            visible: true,
-          }
-          frame.layers = [videoLayer, ...frame.layers]
-          // Set background image so it shows when video layer is hidden
-          frame.imageUrl = createBackgroundImage(backgroundColor, frame.width, frame.height)
-        })
+        await moveFrameImagesToLayer(frames, 'Video Layer 1', backgroundColor)
+
+        if (target) {
+          commitProject('Insert video', (current) => {
+            const updatedFrames = [...current.frames]
+            updatedFrames.splice(startIndex, 0, ...frames)
+            return {
+              ...current,
+              frames: updatedFrames.map((frame, index) => ({ ...frame, frameNumber: index })),
+              audioId,
+              updatedAt: Date.now(),
+            }
+          })
+          setActiveFrameId(frames[0].id)
+          setStatusMessage(`Inserted ${frames.length} frames at position ${startIndex + 1}`)
+          return
+        }
 
         const newProject: AnimatorProject = {
-          name: project?.name || 'Untitled project',
+          id: createProjectId(),
+          name: file.name.replace(/\.[^.]+$/, '') || 'Untitled project',
           backgroundColor,
+          fps,
           frames,
-          audioUrl,
+          audioId,
           updatedAt: Date.now(),
         }
-        setProject(newProject)
-        setActiveFrameId(frames[0].id)
         await saveProject(newProject)
-        setStatusMessage(`Ready • ${frames.length} frames @ 12 FPS`)
+        markPersisted(newProject)
+        resetProject(newProject)
+        setActiveFrameId(frames[0].id)
+        setStatusMessage(`Ready • ${frames.length} frames @ ${fps} FPS`)
       } catch (error) {
         console.error(error)
         setStatusMessage('Processing failed')
@@ -523,13 +714,91 @@ function App() {
         setIsProcessing(false)
       }
     },
-    [loadFfmpeg, project?.backgroundColor, project?.name],
+    [loadFfmpeg, project, markPersisted, resetProject, commitProject],
+  )
+
+  const handleFramesSelected = useCallback(
+    async (files: File[], options: FrameImportOptions) => {
+      const target = options.placement === 'insert-frames' ? project : null
+      const startIndex = target ? Math.min(Math.max(0, options.position - 1), target.frames.length) : 0
+      const { fps } = options
+      setIsProcessing(true)
+      setStatusMessage('Reading images…')
+      try {
+        const entries = await collectSequenceEntries(files)
+        if (!entries.length) {
+          throw new Error('No PNG, JPG or GIF images found in the selection.')
+        }
+
+        const ffmpegInstance = await loadFfmpeg()
+        setStatusMessage(`Decoding ${entries.length} file${entries.length !== 1 ? 's' : ''}…`)
+        // Inserted frames are letterboxed onto the project's frame size, like video added as a layer
+        const fitTo = target?.frames.length
+          ? { width: target.frames[0].width, height: target.frames[0].height }
+          : undefined
+        const names = await writeSequenceFrames(ffmpegInstance, entries, fps, fitTo)
+        if (!names.length) {
+          throw new Error('No frames produced. Try different image files.')
+        }
+
+        setStatusMessage('Loading frames into canvas memory…')
+        const frames = await composeFrames(names, ffmpegInstance)
+        const backgroundColor = project?.backgroundColor || '#ffffff'
+        await moveFrameImagesToLayer(frames, 'Image Layer 1', backgroundColor)
+
+        if (target) {
+          // Silence goes in under the new frames so the soundtrack stays lined up with what follows
+          setStatusMessage('Splicing audio…')
+          const audioId = await spliceProjectAudio(ffmpegInstance, {
+            project: target,
+            startIndex,
+            clipAudio: null,
+            clipDuration: frames.length / fps,
+            placement: 'insert-frames',
+          })
+          commitProject('Insert frames', (current) => {
+            const updatedFrames = [...current.frames]
+            updatedFrames.splice(startIndex, 0, ...frames)
+            return {
+              ...current,
+              frames: updatedFrames.map((frame, index) => ({ ...frame, frameNumber: index })),
+              audioId,
+              updatedAt: Date.now(),
+            }
+          })
+          setActiveFrameId(frames[0].id)
+          setStatusMessage(`Inserted ${frames.length} frames at position ${startIndex + 1}`)
+          return
+        }
+
+        const newProject: AnimatorProject = {
+          id: createProjectId(),
+          // "shot_0001.png" names the project "shot"
+          name: files[0].name.replace(/[-_ ]*\d*\.[^.]+$/, '') || 'Image sequence',
+          backgroundColor,
+          fps,
+          frames,
+          updatedAt: Date.now(),
+        }
+        await saveProject(newProject)
+        markPersisted(newProject)
+        resetProject(newProject)
+        setActiveFrameId(frames[0].id)
+        setStatusMessage(`Ready • ${frames.length} frames @ ${fps} FPS`)
+      } catch (error) {
+        console.error(error)
+        setStatusMessage('Import failed')
+        alert(error instanceof Error ? error.message : 'Unable to import these files.')
+      } finally {
+        setIsProcessing(false)
+      }
+    },
+    [loadFfmpeg, project, markPersisted, resetProject, commitProject],
   )
 
   const handleCommitStroke = useCallback(
     (frameId: string, layerId: string, stroke: DrawingStroke) => {
-      setProject((current) => {
-        if (!current) return current
+      commitProject(stroke.mode === 'eraser' ? 'Erase' : 'Draw stroke', (current) => {
         const frames = current.frames.map((frame) => {
           if (frame.id !== frameId) return frame
           const layers = frame.layers.map((layer) =>
@@ -539,111 +808,30 @@ function App() {
           )
           return { ...frame, layers }
         })
-        const updated = { frames, updatedAt: Date.now() }
-        void saveProject(updated)
-        return updated
+        return { ...current, frames, updatedAt: Date.now() }
       })
-      const stackKey = `${frameId}:${layerId}`
-      setRedoStacks((prev) => ({ ...prev, [stackKey]: [] }))
     },
-    [],
+    [commitProject],
   )
 
-  const handleUndoStroke = useCallback(() => {
-    if (!activeFrame || !activeLayer) return
-    const frameId = activeFrame.id
-    const layerId = activeLayer.id
-    const stackKey = `${frameId}:${layerId}`
-    let removedStroke: DrawingStroke | null = null
-
-    setProject((current) => {
-      if (!current) return current
-      const frameIndex = current.frames.findIndex((frame) => frame.id === frameId)
-      if (frameIndex === -1) return current
-      const frame = current.frames[frameIndex]
-      const layerIndex = frame.layers.findIndex((layer) => layer.id === layerId)
-      if (layerIndex === -1) return current
-      const targetLayer = frame.layers[layerIndex]
-      if (!targetLayer.strokes.length) return current
-      removedStroke = targetLayer.strokes[targetLayer.strokes.length - 1]
-      const updatedLayer: DrawingLayer = {
-        ...targetLayer,
-        strokes: targetLayer.strokes.slice(0, -1),
-      }
-      const updatedLayers = frame.layers.map((layer, idx) => (idx === layerIndex ? updatedLayer : layer))
-      const updatedFrame: FrameData = { ...frame, layers: updatedLayers }
-      const updatedFrames = current.frames.map((existing, idx) =>
-        idx === frameIndex ? updatedFrame : existing,
-      )
-      const updatedProject: AnimatorProject = {
-        frames: updatedFrames,
-        updatedAt: Date.now(),
-      }
-      void saveProject(updatedProject)
-      return updatedProject
-    })
-
-    if (removedStroke) {
-      setRedoStacks((prev) => ({
-        ...prev,
-        [stackKey]: [...(prev[stackKey] ?? []), removedStroke!],
-      }))
-    }
-  }, [activeFrame, activeLayer])
-
-  const handleRedoStroke = useCallback(() => {
-    if (!activeFrame || !activeLayer) return
-    const frameId = activeFrame.id
-    const layerId = activeLayer.id
-    const stackKey = `${frameId}:${layerId}`
-    let strokeToRestore: DrawingStroke | null = null
-
-    setRedoStacks((prev) => {
-      const stack = prev[stackKey]
-      if (!stack || !stack.length) {
-        strokeToRestore = null
-        return prev
-      }
-      strokeToRestore = stack[stack.length - 1]
-      return {
-        ...prev,
-        [stackKey]: stack.slice(0, -1),
-      }
-    })
-
-    if (!strokeToRestore) return
-
-    setProject((current) => {
-      if (!current) return current
-      const frameIndex = current.frames.findIndex((frame) => frame.id === frameId)
-      if (frameIndex === -1) return current
-      const frame = current.frames[frameIndex]
-      const layerIndex = frame.layers.findIndex((layer) => layer.id === layerId)
-      if (layerIndex === -1) return current
-      const targetLayer = frame.layers[layerIndex]
-      const updatedLayer: DrawingLayer = {
-        ...targetLayer,
-        strokes: [...targetLayer.strokes, strokeToRestore!],
-      }
-      const updatedLayers = frame.layers.map((layer, idx) => (idx === layerIndex ? updatedLayer : layer))
-      const updatedFrame: FrameData = { ...frame, layers: updatedLayers }
-      const updatedFrames = current.frames.map((existing, idx) =>
-        idx === frameIndex ? updatedFrame : existing,
-      )
-      const updatedProject: AnimatorProject = {
-        frames: updatedFrames,
-        updatedAt: Date.now(),
-      }
-      void saveProject(updatedProject)
-      return updatedProject
-    })
-  }, [activeFrame, activeLayer])
+  // Selection edits (move, scale, rotate, flip, paste, delete) rewrite one layer's strokes as a single step
+  const handleEditLayer = useCallback(
+    (frameId: string, layerId: string, label: string, edit: (layer: DrawingLayer) => DrawingLayer) => {
+      commitProject(label, (current) => {
+        const frames = current.frames.map((frame) => {
+          if (frame.id !== frameId) return frame
+          const layers = frame.layers.map((layer) => (layer.id === layerId ? edit(layer) : layer))
+          return { ...frame, layers }
+        })
+        return { ...current, frames, updatedAt: Date.now() }
+      })
+    },
+    [commitProject],
+  )
 
   const handleDeleteLayer = useCallback((layerId: string, scope: 'frame' | 'all' = 'frame', layerName?: string) => {
     let deleted = false
-    setProject((current) => {
-      if (!current) return current
-
+    commitProject('Delete layer', (current) => {
       if (scope === 'all') {
         // Delete from all frames
         let removedAny = false
@@ -681,7 +869,6 @@ function App() {
           frames: updatedFrames,
           updatedAt: Date.now(),
         }
-        void saveProject(updatedProject)
         deleted = true
         return updatedProject
       } else {
@@ -716,10 +903,10 @@ function App() {
         )
 
         const updatedProject: AnimatorProject = {
+          ...current,
           frames: updatedFrames,
           updatedAt: Date.now(),
         }
-        void saveProject(updatedProject)
         deleted = true
         return updatedProject
       }
@@ -727,17 +914,8 @@ function App() {
 
     if (deleted) {
       setStatusMessage(`Deleted layer${scope === 'all' ? ' from all frames' : ''}`)
-      if (scope === 'frame') {
-        setRedoStacks((prev) => {
-          const key = `${activeFrameId}:${layerId}`
-          if (!(key in prev)) return prev
-          const next = { ...prev }
-          delete next[key]
-          return next
-        })
-      }
     }
-  }, [activeFrameId])
+  }, [activeFrameId, commitProject])
 
   const requestClearProject = useCallback(() => {
     setIsClearConfirmVisible(true)
@@ -748,16 +926,20 @@ function App() {
   }, [])
 
   const confirmClearProject = useCallback(async () => {
-    await clearProject()
-    setProject(null)
+    if (project) {
+      discardPendingSave(project.id)
+      await deleteProject(project.id)
+    }
+    resetProject(null)
     setActiveFrameId(null)
     setStatusMessage('Cleared project')
     setIsClearConfirmVisible(false)
-  }, [])
+    void refreshProjectLibrary()
+  }, [project, refreshProjectLibrary, discardPendingSave, resetProject])
 
   const handleAddLayer = useCallback(() => {
-    setProject((current) => {
-      if (!current || !activeFrameId) return current
+    if (!activeFrameId) return
+    commitProject('Add layer', (current) => {
       const frameIndex = current.frames.findIndex((frame) => frame.id === activeFrameId)
       if (frameIndex === -1) return current
 
@@ -772,18 +954,19 @@ function App() {
         idx === frameIndex ? updatedFrame : existing,
       )
       const updatedProject: AnimatorProject = {
+        ...current,
         frames: updatedFrames,
         updatedAt: Date.now(),
       }
-      void saveProject(updatedProject)
       setStatusMessage('Added new layer')
       return updatedProject
     })
-  }, [activeFrameId])
+  }, [activeFrameId, commitProject])
 
+  // Switching the active layer is view state, so it is kept out of the undo history
   const handleSelectLayer = useCallback((layerId: string) => {
-    setProject((current) => {
-      if (!current || !activeFrameId) return current
+    if (!activeFrameId) return
+    updateProject((current) => {
       const frameIndex = current.frames.findIndex((frame) => frame.id === activeFrameId)
       if (frameIndex === -1) return current
       const frame = current.frames[frameIndex]
@@ -793,34 +976,80 @@ function App() {
         idx === frameIndex ? updatedFrame : existing,
       )
       const updatedProject: AnimatorProject = {
+        ...current,
         frames: updatedFrames,
         updatedAt: Date.now(),
       }
-      void saveProject(updatedProject)
       return updatedProject
     })
-  }, [activeFrameId])
+  }, [activeFrameId, updateProject])
 
   const applyImageToFrames = useCallback(
-    (dataUrl: string, scope: 'frame' | 'all') => {
-      setProject((current) => {
-        if (!current || !activeFrameId) return current
-
-        const updatedFrames = applyImageLayerToFrames(current.frames, activeFrameId, dataUrl, scope)
+    (imageId: AssetId, scope: 'frame' | 'all') => {
+      if (!activeFrameId) return
+      commitProject('Add image layer', (current) => {
+        const updatedFrames = applyImageLayerToFrames(current.frames, activeFrameId, imageId, scope)
         const updatedProject: AnimatorProject = {
+          ...current,
           frames: updatedFrames,
           updatedAt: Date.now(),
         }
-        void saveProject(updatedProject)
         return updatedProject
       })
       setStatusMessage(scope === 'all' ? 'Image applied to all frames' : 'Image applied to this frame')
     },
-    [activeFrameId],
+    [activeFrameId, commitProject],
   )
 
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const videoInputRef = useRef<VideoFileInputHandle | null>(null)
+  const projectFileInputRef = useRef<HTMLInputElement | null>(null)
+  const framesInputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleExportProject = useCallback(async () => {
+    if (!project) return
+    setIsProcessing(true)
+    setStatusMessage('Packing project archive…')
+    try {
+      const projectName = project.name || 'Untitled project'
+      const archive = await exportProjectArchive(project)
+      saveAs(archive, `${projectName.replace(/[^\w-]+/g, '_')}${ARCHIVE_EXTENSION}`)
+      setStatusMessage('Project archive exported')
+    } catch (error) {
+      console.error('Error exporting project archive:', error)
+      setStatusMessage('Failed to export project')
+    } finally {
+      setIsProcessing(false)
+    }
+  }, [project])
+
+  const handleImportProjectRequest = useCallback(() => {
+    if (!projectFileInputRef.current) return
+    projectFileInputRef.current.value = ''
+    projectFileInputRef.current.click()
+  }, [])
+
+  const handleProjectFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setIsProcessing(true)
+    setStatusMessage('Unpacking project archive…')
+    try {
+      const imported = await importProjectArchive(file)
+      await saveProject(imported)
+      markPersisted(imported)
+      resetProject(imported)
+      setActiveFrameId(imported.frames[0].id)
+      void refreshProjectLibrary()
+      setStatusMessage(`Imported "${imported.name || 'Untitled project'}" • ${imported.frames.length} frames`)
+    } catch (error) {
+      console.error('Error importing project archive:', error)
+      setStatusMessage('Failed to import project')
+      alert(error instanceof Error ? error.message : 'Unable to import this project archive.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }, [refreshProjectLibrary, markPersisted, resetProject])
 
   const handleAddImageRequest = useCallback((scope: 'frame' | 'all') => {
     if (!fileInputRef.current) return
@@ -836,98 +1065,180 @@ function App() {
       setStatusMessage('Please select an image file')
       return
     }
-    const reader = new FileReader()
-    reader.onload = () => {
-      const result = typeof reader.result === 'string' ? reader.result : null
-      if (!result) return
-      applyImageToFrames(result, pendingImageScopeRef.current)
-    }
-    reader.readAsDataURL(file)
+    const scope = pendingImageScopeRef.current
+    putAsset(file)
+      .then((imageId) => applyImageToFrames(imageId, scope))
+      .catch((error) => {
+        console.error('Error storing image:', error)
+        setStatusMessage('Failed to add image')
+      })
   }, [applyImageToFrames])
 
   const handleAddVideo = useCallback(() => {
     videoInputRef.current?.open()
   }, [])
 
-  const handleAutoTrace = useCallback(async () => {
-    if (!project || project.frames.length === 0) {
-      setStatusMessage('Load frames to Auto Trace')
-      return
-    }
+  const handleImportFramesRequest = useCallback(() => {
+    if (!framesInputRef.current) return
+    framesInputRef.current.value = ''
+    framesInputRef.current.click()
+  }, [])
+
+  const handleFramesFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    if (files.length) setPendingFrameFiles(files)
+  }, [])
+
+  const runAutoTraceJob = useCallback(async (job: AutoTraceJob, source: AnimatorProject) => {
+    const traceSettings = getTraceSettings(source)
+    const frameIndexById = new Map(source.frames.map((frame, index) => [frame.id, index]))
+    const alreadyDone = job.total - job.frameIds.length
+    let traced = 0
+    let skipped = 0
 
     autoTraceCancelledRef.current = false
     setIsProcessing(true)
-    setAutoTraceProgress({ current: 0, total: project.frames.length })
-    setStatusMessage('Tracing outlines for all frames…')
+    setAutoTraceProgress({ current: alreadyDone, total: job.total })
+    setStatusMessage(
+      traceSettings.mode === 'person' ? 'Loading person segmentation…' : `Tracing outlines for ${job.frameIds.length} frames…`,
+    )
     try {
-      const updatedFrames: FrameData[] = []
-      for (let i = 0; i < project.frames.length; i++) {
-        if (autoTraceCancelledRef.current) {
-          setStatusMessage('Auto Trace cancelled')
-          break
-        }
-
-        const frame = project.frames[i]
-        setAutoTraceProgress({ current: i + 1, total: project.frames.length })
-        setStatusMessage(`Tracing frame ${i + 1} of ${project.frames.length}…`)
-
-        // Find source image - only from actual image layers, not base frame image
-        const visibleImageLayer = frame.layers.find((layer) => layer.visible && layer.imageUrl)
-        const sourceImageUrl = visibleImageLayer?.imageUrl
-
-        if (!sourceImageUrl) {
-          updatedFrames.push(frame)
-          continue
-        }
-
-        const outlineUrl = await generateOutlineMask(sourceImageUrl)
-        console.log('Auto trace using white background with black outlines')
-        
-        // Check if this frame already has an auto trace layer to avoid duplicates
-        const hasExistingAutoTrace = frame.layers.some((layer) => layer.name.startsWith('Auto Trace'))
-        if (hasExistingAutoTrace) {
-          // Skip adding auto trace if one already exists
-          updatedFrames.push(frame)
-          continue
-        }
-        
-        const outlineLayer = {
-          ...createLayer('Auto Trace 1'),
-          imageUrl: outlineUrl,
-          visible: true,
+      for (let i = 0; i < job.frameIds.length; i++) {
+        if (autoTraceCancelledRef.current) break
+
+        const frameId = job.frameIds[i]
+        const frameIndex = frameIndexById.get(frameId)
+        const frame = frameIndex === undefined ? undefined : source.frames[frameIndex]
+        const position = alreadyDone + i + 1
+        setStatusMessage(`Tracing frame ${frame ? frame.frameNumber + 1 : position} (${position} of ${job.total})…`)
+
+        const sourceImageId = frame ? getTraceSourceImageId(frame) : undefined
+        let traceLayer: DrawingLayer | null = null
+        if (frame && sourceImageId && (job.replaceExisting || !frame.layers.some(isAutoTraceLayer))) {
+          const result = await traceImage(sourceImageId, traceSettings, {
+            neighbourIds: getTraceNeighbourImageIds(source.frames, frameIndex!),
+          })
+          traceLayer = createLayer('Auto Trace 1')
+          if (result.strokes) {
+            // Vector output lands as ordinary strokes so the eraser and undo work on it
+            traceLayer.strokes = result.strokes
+          } else if (result.outline) {
+            traceLayer.imageId = await putAsset(result.outline)
+          }
+          traced += 1
+        } else {
+          skipped += 1
         }
 
-        updatedFrames.push({
-          ...frame,
-          layers: [...frame.layers, outlineLayer],
-        })
+        // Every finished frame is committed (and autosaved) with what is left of the job, so a
+        // cancel or reload loses at most the frame in flight; the whole run stays one history step
+        const remaining = job.frameIds.slice(i + 1)
+        const layer = traceLayer
+        commitProject(
+          'Auto Trace',
+          (current) => ({
+            ...current,
+            frames: layer
+              ? current.frames.map((candidate) =>
+                  candidate.id === frameId ? replaceAutoTraceLayer(candidate, layer) : candidate,
+                )
+              : current.frames,
+            autoTraceJob: remaining.length ? { ...job, frameIds: remaining } : undefined,
+            updatedAt: Date.now(),
+          }),
+          { coalesceKey: `auto-trace:${job.id}`, coalesceWindowMs: Infinity },
+        )
+        setAutoTraceProgress({ current: position, total: job.total })
       }
 
-      if (!autoTraceCancelledRef.current && updatedFrames.length > 0) {
-        const updatedProject: AnimatorProject = {
-          frames: updatedFrames,
-          updatedAt: Date.now(),
-        }
-        setProject(updatedProject)
-        void saveProject(updatedProject)
-        setStatusMessage(`Auto Trace applied to ${updatedFrames.length} frames`)
-      }
+      const summary =
+        `${traced} frame${traced !== 1 ? 's' : ''} traced` +
+        (skipped ? ` • ${skipped} skipped (no image layer${job.replaceExisting ? '' : ' or already traced'})` : '')
+      setStatusMessage(
+        autoTraceCancelledRef.current
+          ? `Auto Trace paused • ${summary} • open Auto Trace to resume`
+          : `Auto Trace finished • ${summary}`,
+      )
     } catch (error) {
-      console.error(error)
-      setStatusMessage('Auto Trace failed. Please try again.')
+      if (isTraceCancelled(error)) {
+        setStatusMessage('Auto Trace paused • open Auto Trace to resume')
+      } else {
+        console.error(error)
+        setStatusMessage('Auto Trace failed • open Auto Trace to resume from the failed frame')
+      }
     } finally {
       setIsProcessing(false)
       setAutoTraceProgress({ current: 0, total: 0 })
     }
-  }, [project])
+  }, [commitProject])
+
+  const handleAutoTrace = useCallback((options: AutoTraceRunOptions) => {
+    setIsAutoTraceDialogOpen(false)
+    setAutoTraceOptions(options)
+    if (!project || project.frames.length === 0) {
+      setStatusMessage('Load frames to Auto Trace')
+      return
+    }
+
+    let targetFrames = project.frames
+    if (options.scope === 'current') {
+      targetFrames = project.frames.filter((frame) => frame.id === activeFrameId)
+    } else if (options.scope === 'selection') {
+      const selected = new Set(getFrameSelection(project.frames, selectedFrameIds, activeFrameId))
+      targetFrames = project.frames.filter((frame) => selected.has(frame.id))
+    } else if (options.scope === 'range') {
+      const first = Math.min(options.rangeStart, options.rangeEnd) - 1
+      const last = Math.max(options.rangeStart, options.rangeEnd)
+      targetFrames = project.frames.slice(Math.max(0, first), last)
+    }
+    if (!targetFrames.length) {
+      setStatusMessage('No frames to Auto Trace')
+      return
+    }
+
+    void runAutoTraceJob(
+      {
+        id: uuidv4(),
+        frameIds: targetFrames.map((frame) => frame.id),
+        total: targetFrames.length,
+        replaceExisting: options.replaceExisting,
+      },
+      project,
+    )
+  }, [project, activeFrameId, selectedFrameIds, runAutoTraceJob])
+
+  const handleResumeAutoTrace = useCallback(() => {
+    setIsAutoTraceDialogOpen(false)
+    if (project?.autoTraceJob) {
+      void runAutoTraceJob(project.autoTraceJob, project)
+    }
+  }, [project, runAutoTraceJob])
+
+  const handleDiscardAutoTraceJob = useCallback(() => {
+    updateProject((current) => (current.autoTraceJob ? { ...current, autoTraceJob: undefined } : current))
+    setStatusMessage('Unfinished Auto Trace discarded')
+  }, [updateProject])
+
+  const handleSaveTraceSettings = useCallback((traceSettings: TraceSettings) => {
+    commitProject('Change trace settings', (current) => ({
+      ...current,
+      traceSettings,
+      updatedAt: Date.now(),
+    }))
+    setIsTraceSettingsOpen(false)
+    setStatusMessage('Trace settings saved')
+  }, [commitProject])
 
   const handleCancelAutoTrace = useCallback(() => {
     autoTraceCancelledRef.current = true
+    cancelTracing()
   }, [])
 
   const handleToggleLayerVisibility = useCallback((layerId: string) => {
-    setProject((current) => {
-      if (!current || !activeFrameId) return current
+    if (!activeFrameId) return
+    const frame = project?.frames.find((candidate) => candidate.id === activeFrameId)
+    const isVisible = frame?.layers.find((layer) => layer.id === layerId)?.visible
+    commitProject(isVisible ? 'Hide layer' : 'Show layer', (current) => {
       const frameIndex = current.frames.findIndex((frame) => frame.id === activeFrameId)
       if (frameIndex === -1) return current
 
@@ -940,28 +1251,31 @@ function App() {
         idx === frameIndex ? updatedFrame : existing,
       )
       const updatedProject: AnimatorProject = {
+        ...current,
         frames: updatedFrames,
         updatedAt: Date.now(),
       }
-      void saveProject(updatedProject)
       return updatedProject
     })
-  }, [activeFrameId])
+  }, [activeFrameId, project, commitProject])
 
   const handleCreateBlankCanvas = useCallback(async (backgroundColor?: string) => {
     setIsProcessing(true)
     setStatusMessage('Creating blank canvas…')
     try {
-      const frame = createBlankCanvasFrame(backgroundColor)
+      const frame = await createBlankCanvasFrame(backgroundColor)
       const newProject: AnimatorProject = {
+        id: createProjectId(),
         name: 'Untitled project',
         backgroundColor: backgroundColor || '#0f172a',
+        fps: DEFAULT_FPS,
         frames: [frame],
         updatedAt: Date.now(),
       }
-      setProject(newProject)
-      setActiveFrameId(frame.id)
       await saveProject(newProject)
+      markPersisted(newProject)
+      resetProject(newProject)
+      setActiveFrameId(frame.id)
       setStatusMessage('Canvas ready • start drawing!')
     } catch (error) {
       console.error(error)
@@ -969,17 +1283,17 @@ function App() {
     } finally {
       setIsProcessing(false)
     }
-  }, [])
+  }, [markPersisted, resetProject])
 
   const handleCreateBlankCanvasWithColor = useCallback(() => {
     setBackgroundColorPrompt(true)
   }, [])
 
   const handleInsertFrame = useCallback((frameId: string, direction: 'left' | 'right') => {
-    let newFrameId: string | null = null
-    setProject((current) => {
-      if (!current || !current.frames.length) return current
-
+    if (!project?.frames.some((frame) => frame.id === frameId)) return
+    // Generated up front so the id is known here even though the updater may run later
+    const newFrameId = uuidv4()
+    commitProject('Insert frame', (current) => {
       const sourceIndex = current.frames.findIndex((frame) => frame.id === frameId)
       if (sourceIndex === -1) return current
 
@@ -989,20 +1303,19 @@ function App() {
       const blankLayer = createLayer('Layer 1')
       const imageLayers = imagePalette.map((layer) => ({
         ...createLayer(layer.name),
-        imageUrl: layer.imageUrl,
+        imageId: layer.imageId,
         visible: false,
       }))
       const newFrame: FrameData = {
-        id: uuidv4(),
+        id: newFrameId,
         frameNumber: sourceIndex,
-        imageUrl: sourceFrame.imageUrl,
+        imageId: sourceFrame.imageId,
         layers: [blankLayer, ...imageLayers],
         activeLayerId: blankLayer.id,
         width: sourceFrame.width,
         height: sourceFrame.height,
       }
 
-      newFrameId = newFrame.id
       const insertIndex = direction === 'left' ? sourceIndex : sourceIndex + 1
       const frames = [...current.frames]
       frames.splice(insertIndex, 0, newFrame)
@@ -1011,21 +1324,33 @@ function App() {
         frameNumber: index,
       }))
       const updated: AnimatorProject = {
+        ...current,
         frames: renumbered,
         updatedAt: Date.now(),
       }
-      void saveProject(updated)
       return updated
     })
+    setActiveFrameId(newFrameId)
+  }, [project, commitProject])
 
-    if (newFrameId) {
-      setActiveFrameId(newFrameId)
-    }
-  }, [])
+  const handleFrameDurationChange = useCallback((frameId: string, duration: number) => {
+    commitProject('Change hold', (current) => {
+      const updatedFrames = current.frames.map((frame) =>
+        frame.id === frameId ? { ...frame, duration } : frame,
+      )
+      const updatedProject: AnimatorProject = {
+        ...current,
+        frames: updatedFrames,
+        updatedAt: Date.now(),
+      }
+      return updatedProject
+    }, { coalesceKey: `hold:${frameId}` })
+    setStatusMessage(`Hold set to ${duration} tick${duration !== 1 ? 's' : ''}`)
+  }, [commitProject])
 
   const handleDeleteFrame = useCallback((frameId: string) => {
-    setProject((current) => {
-      if (!current || current.frames.length <= 1) return current
+    commitProject('Delete frame', (current) => {
+      if (current.frames.length <= 1) return current
 
       const frameIndex = current.frames.findIndex((frame) => frame.id === frameId)
       if (frameIndex === -1) return current
@@ -1037,10 +1362,10 @@ function App() {
       }))
 
       const updated: AnimatorProject = {
+        ...current,
         frames: renumbered,
         updatedAt: Date.now(),
       }
-      void saveProject(updated)
 
       // If we deleted the active frame, select a nearby one
       if (frameId === activeFrameId) {
@@ -1050,13 +1375,94 @@ function App() {
 
       return updated
     })
-  }, [activeFrameId])
+  }, [activeFrameId, commitProject])
+
+  const handleDeleteFrames = useCallback((frameIds: string[]) => {
+    if (!project) return
+    const removing = new Set(frameIds)
+    const remaining = project.frames.filter((frame) => !removing.has(frame.id))
+    if (!remaining.length) {
+      setStatusMessage('A project needs at least one frame')
+      return
+    }
+    const firstRemovedIndex = project.frames.findIndex((frame) => removing.has(frame.id))
+    commitProject(frameIds.length > 1 ? 'Delete frames' : 'Delete frame', (current) => ({
+      ...current,
+      frames: renumberFrames(current.frames.filter((frame) => !removing.has(frame.id))),
+      updatedAt: Date.now(),
+    }))
+    setSelectedFrameIds([])
+    setActiveFrameId(remaining[Math.min(firstRemovedIndex, remaining.length - 1)].id)
+    setStatusMessage(`Deleted ${frameIds.length} frame${frameIds.length !== 1 ? 's' : ''}`)
+  }, [project, commitProject])
+
+  // Copies go in after `afterIndex` and become the selection
+  const insertFrameCopies = useCallback(
+    (label: string, sources: FrameData[], afterIndex: number) => {
+      const copies = sources.map(cloneFrame)
+      commitProject(label, (current) => {
+        const frames = [...current.frames]
+        frames.splice(afterIndex + 1, 0, ...copies)
+        return { ...current, frames: renumberFrames(frames), updatedAt: Date.now() }
+      })
+      setSelectedFrameIds(copies.map((frame) => frame.id))
+      setActiveFrameId(copies[0].id)
+    },
+    [commitProject],
+  )
+
+  const handleDuplicateFrames = useCallback((frameIds: string[]) => {
+    if (!project) return
+    const selected = new Set(frameIds)
+    const sources = project.frames.filter((frame) => selected.has(frame.id))
+    if (!sources.length) return
+    const lastIndex = project.frames.indexOf(sources[sources.length - 1])
+    insertFrameCopies(sources.length > 1 ? 'Duplicate frames' : 'Duplicate frame', sources, lastIndex)
+  }, [project, insertFrameCopies])
+
+  const handleCopyFrames = useCallback((frameIds: string[]) => {
+    if (!project) return
+    const selected = new Set(frameIds)
+    const copied = project.frames.filter((frame) => selected.has(frame.id))
+    setFrameClipboard(copied)
+    setStatusMessage(`Copied ${copied.length} frame${copied.length !== 1 ? 's' : ''}`)
+  }, [project])
+
+  const handleCutFrames = useCallback((frameIds: string[]) => {
+    if (!project || frameIds.length >= project.frames.length) {
+      setStatusMessage('A project needs at least one frame')
+      return
+    }
+    handleCopyFrames(frameIds)
+    handleDeleteFrames(frameIds)
+  }, [project, handleCopyFrames, handleDeleteFrames])
+
+  const handlePasteFrames = useCallback(() => {
+    if (!project || !frameClipboard?.length) return
+    const activeIndex = project.frames.findIndex((frame) => frame.id === activeFrameId)
+    insertFrameCopies(
+      frameClipboard.length > 1 ? 'Paste frames' : 'Paste frame',
+      frameClipboard,
+      activeIndex === -1 ? project.frames.length - 1 : activeIndex,
+    )
+  }, [project, frameClipboard, activeFrameId, insertFrameCopies])
+
+  const handleMoveFrames = useCallback((frameIds: string[], targetIndex: number) => {
+    if (!project) return
+    const reordered = moveFrames(project.frames, frameIds, targetIndex)
+    if (reordered.every((frame, index) => frame.id === project.frames[index].id)) return
+    commitProject(frameIds.length > 1 ? 'Move frames' : 'Move frame', (current) => ({
+      ...current,
+      frames: moveFrames(current.frames, frameIds, targetIndex),
+      updatedAt: Date.now(),
+    }))
+  }, [project, commitProject])
 
   const isBusy = isProcessing || isFfmpegLoading
 
   const processingSteps = [
     { id: 'ffmpeg', label: 'Preparing ffmpeg runtime', keyword: 'ffmpeg' },
-    { id: 'extract', label: 'Extracting frames at 12 FPS', keyword: 'extract' },
+    { id: 'extract', label: 'Extracting frames', keyword: 'extract' },
     { id: 'load', label: 'Loading frames into canvas memory', keyword: 'loading frames' },
     { id: 'outline', label: 'Generating TensorFlow outlines', keyword: 'outline' },
     { id: 'ready', label: 'Finalizing Flipaclip workspace', keyword: 'ready' },
@@ -1099,37 +1505,56 @@ function App() {
     <BrushRail
       brushColor={brushColor}
       brushSize={brushSize}
+      brushDynamics={brushDynamics}
       tool={tool}
       onionSkin={onionSkin}
       onToolChange={setTool}
       onBrushSizeChange={setBrushSize}
       onBrushColorChange={setBrushColor}
-      onToggleOnionSkin={() => setOnionSkin((value) => !value)}
-      onAutoTrace={handleAutoTrace}
+      onBrushDynamicsChange={(patch) => setBrushDynamics((current) => ({ ...current, ...patch }))}
+      onOnionSkinChange={updateOnionSkin}
+      onOpenTraceSettings={() => setIsTraceSettingsOpen(true)}
+      onAutoTrace={() => setIsAutoTraceDialogOpen(true)}
+    />
+  )
+
+  const historyPanel = (
+    <HistoryPanel
+      past={history.past}
+      future={history.future}
+      depth={history.depth}
+      onGoTo={history.goTo}
+      onDepthChange={history.setDepth}
     />
   )
 
   const stageEditorWithTimeline = (
     <StageEditor
       frame={activeFrame}
-      prevFrame={onionSkin ? prevFrame : null}
+      onionFrames={onionFrames}
       brushColor={brushColor}
       brushSize={brushSize}
+      brushDynamics={brushDynamics}
       tool={tool}
       onionSkin={onionSkin}
       onCommitStroke={handleCommitStroke}
+      onEditLayer={handleEditLayer}
       onGenerateMovie={handleGenerateMovie}
-      onUndoStroke={handleUndoStroke}
-      onRedoStroke={handleRedoStroke}
-      canUndo={canUndo}
-      canRedo={canRedo}
+      onUndo={handleUndo}
+      onRedo={handleRedo}
+      canUndo={history.canUndo}
+      canRedo={history.canRedo}
+      historyPanel={historyPanel}
       onAddLayer={handleAddLayer}
       onAddImage={handleAddImageRequest}
       onAddVideo={handleAddVideo}
+      onImportFrames={handleImportFramesRequest}
       onToggleLayerVisibility={handleToggleLayerVisibility}
       onSelectLayer={handleSelectLayer}
       onDeleteLayer={handleDeleteLayer}
       totalFrames={project?.frames.length ?? 0}
+      fps={projectFps}
+      onFpsChange={handleFpsChange}
       projectName={project?.name ?? 'Untitled project'}
       onProjectNameChange={handleProjectNameChange}
       toolPanel={brushRail}
@@ -1144,8 +1569,17 @@ function App() {
         onSelectFrame={setActiveFrameId}
         onInsertFrame={handleInsertFrame}
         onDeleteFrame={handleDeleteFrame}
-        audioUrl={project?.audioUrl}
-        fps={12}
+        onFrameDurationChange={handleFrameDurationChange}
+        audioUrl={getAssetUrl(project?.audioId)}
+        fps={projectFps}
+        selectedFrameIds={selectedFrameIds}
+        onSelectionChange={setSelectedFrameIds}
+        onMoveFrames={handleMoveFrames}
+        onDuplicateFrames={handleDuplicateFrames}
+        onCopyFrames={handleCopyFrames}
+        onCutFrames={handleCutFrames}
+        onPasteFrames={frameClipboard?.length ? handlePasteFrames : undefined}
+        onDeleteFrames={handleDeleteFrames}
       />
     </StageEditor>
   )
@@ -1160,23 +1594,27 @@ function App() {
   const gettingStartedStage = (
     <StageEditor
       frame={activeFrame}
-      prevFrame={onionSkin ? prevFrame : null}
+      onionFrames={onionFrames}
       brushColor={brushColor}
       brushSize={brushSize}
+      brushDynamics={brushDynamics}
       tool={tool}
       onionSkin={onionSkin}
       onCommitStroke={handleCommitStroke}
+      onEditLayer={handleEditLayer}
       onGenerateMovie={handleGenerateMovie}
       projectName={project?.name ?? 'Untitled project'}
       onProjectNameChange={handleProjectNameChange}
       onClearFrame={handleClearFrame}
-      onUndoStroke={handleUndoStroke}
-      onRedoStroke={handleRedoStroke}
-      canUndo={canUndo}
-      canRedo={canRedo}
+      onUndo={handleUndo}
+      onRedo={handleRedo}
+      canUndo={history.canUndo}
+      canRedo={history.canRedo}
+      historyPanel={historyPanel}
       onAddLayer={handleAddLayer}
       onAddImage={handleAddImageRequest}
       onAddVideo={handleAddVideo}
+      onImportFrames={handleImportFramesRequest}
       onToggleLayerVisibility={handleToggleLayerVisibility}
       onSelectLayer={handleSelectLayer}
       onDeleteLayer={handleDeleteLayer}
@@ -1185,21 +1623,50 @@ function App() {
 
   return (
     <div className="app-shell">
-      {restorePrompt && (
-        <div className="dialog-overlay">
-          <div className="confirm-dialog">
-            <h2>Welcome back!</h2>
-            <p>Found project "{restorePrompt.name || 'Untitled project'}" with {restorePrompt.frames.length} frames. Would you like to restore it?</p>
-            <div className="dialog-actions">
-              <button className="btn-secondary" onClick={handleDeclineRestore}>
-                Start Fresh
-              </button>
-              <button className="btn-primary" onClick={handleRestoreProject}>
-                Restore Project
-              </button>
-            </div>
-          </div>
-        </div>
+      {isProjectBrowserOpen && (
+        <ProjectBrowser
+          projects={projectLibrary}
+          activeProjectId={project?.id}
+          title={project ? 'Your projects' : 'Welcome back!'}
+          onOpen={handleOpenProject}
+          onDuplicate={handleDuplicateProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          onNewProject={handleNewProject}
+          onClose={() => setIsProjectBrowserOpen(false)}
+        />
+      )}
+
+      {isStorageReportOpen && project && (
+        <StorageReport project={project} onClose={() => setIsStorageReportOpen(false)} />
+      )}
+
+      {isAutoTraceDialogOpen && project && project.frames.length > 0 && (
+        <AutoTraceDialog
+          options={autoTraceOptions}
+          frameCount={project.frames.length}
+          activeFrameIndex={Math.max(0, project.frames.findIndex((frame) => frame.id === activeFrameId))}
+          selectedFrameCount={getFrameSelection(project.frames, selectedFrameIds, activeFrameId).length}
+          pendingJob={project.autoTraceJob}
+          onRun={handleAutoTrace}
+          onResume={handleResumeAutoTrace}
+          onDiscardJob={handleDiscardAutoTraceJob}
+          onOpenSettings={() => setIsTraceSettingsOpen(true)}
+          onClose={() => setIsAutoTraceDialogOpen(false)}
+        />
+      )}
+
+      {isTraceSettingsOpen && project && (
+        <TraceSettingsDialog
+          settings={getTraceSettings(project)}
+          previewImageId={activeFrame ? getTraceSourceImageId(activeFrame) : undefined}
+          previewNeighbourIds={getTraceNeighbourImageIds(
+            project.frames,
+            project.frames.findIndex((frame) => frame.id === activeFrameId),
+          )}
+          onSave={handleSaveTraceSettings}
+          onClose={() => setIsTraceSettingsOpen(false)}
+        />
       )}
 
       {backgroundColorPrompt && (
@@ -1305,9 +1772,14 @@ function App() {
 
       <AppHeader
         statusMessage={statusMessage}
+        saveStatus={saveStatus}
         isBusy={isBusy}
         canClearProject={Boolean(project)}
         onClearProject={requestClearProject}
+        onExportProject={handleExportProject}
+        onImportProject={handleImportProjectRequest}
+        onOpenProjects={handleOpenProjectBrowser}
+        onOpenStorage={() => setIsStorageReportOpen(true)}
       />
 
       {hasProject ? (
@@ -1320,8 +1792,9 @@ function App() {
             <VideoUploader
               disabled={isBusy}
               onVideoSelected={handleVideoSelected}
+              onFramesSelected={setPendingFrameFiles}
               title="2. Add a reference video"
-              description="Drop in MOV, MP4, or WebM footage to extract 12 FPS frames locally."
+              description="Drop in MOV, MP4, or WebM footage and pick the frame rate to extract locally, or import a numbered PNG/JPG sequence, ZIP or GIF."
             />
           }
           stagePreview={gettingStartedStage}
@@ -1335,7 +1808,51 @@ function App() {
         style={{ display: 'none' }}
         onChange={handleImageFileChange}
       />
-      <VideoFileInput ref={videoInputRef} onVideoSelected={handleVideoSelected} />
+      <input
+        ref={projectFileInputRef}
+        type="file"
+        accept={`${ARCHIVE_EXTENSION},application/zip`}
+        style={{ display: 'none' }}
+        onChange={handleProjectFileChange}
+      />
+      <input
+        ref={framesInputRef}
+        type="file"
+        accept={SEQUENCE_ACCEPT}
+        multiple
+        style={{ display: 'none' }}
+        onChange={handleFramesFileChange}
+      />
+      <VideoFileInput ref={videoInputRef} onVideoSelected={setPendingVideoFile} />
+
+      {pendingFrameFiles && (
+        <FrameImportDialog
+          files={pendingFrameFiles}
+          fps={projectFps}
+          frameCount={project?.frames.length || undefined}
+          activeFrameIndex={Math.max(0, activeFrameIndex)}
+          onImport={(options) => {
+            setPendingFrameFiles(null)
+            void handleFramesSelected(pendingFrameFiles, options)
+          }}
+          onClose={() => setPendingFrameFiles(null)}
+        />
+      )}
+
+      {pendingVideoFile && (
+        <VideoImportDialog
+          file={pendingVideoFile}
+          fps={projectFps}
+          frameCount={project?.frames.length || undefined}
+          frameSize={project?.frames[0] && { width: project.frames[0].width, height: project.frames[0].height }}
+          activeFrameIndex={Math.max(0, activeFrameIndex)}
+          onImport={(options) => {
+            setPendingVideoFile(null)
+            void handleVideoSelected(pendingVideoFile, options)
+          }}
+          onClose={() => setPendingVideoFile(null)}
+        />
+      )}
 
       {isClearConfirmVisible && (
         <div className="dialog-overlay">
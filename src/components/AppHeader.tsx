@@ -1,13 +1,38 @@
+import type { SaveStatus } from '../types'
+
 interface AppHeaderProps {
   statusMessage: string
+  saveStatus: SaveStatus
   isBusy: boolean
   canClearProject: boolean
   onClearProject: () => void
+  onExportProject: () => void
+  onImportProject: () => void
+  onOpenProjects: () => void
+  onOpenStorage: () => void
 }
 
 import logo from '../assets/logo.png'
 
-export function AppHeader({ statusMessage, isBusy, canClearProject, onClearProject }: AppHeaderProps) {
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving…',
+  saved: 'All changes saved',
+  error: 'Save failed – retrying on next edit',
+}
+
+export function AppHeader({
+  statusMessage,
+  saveStatus,
+  isBusy,
+  canClearProject,
+  onClearProject,
+  onExportProject,
+  onImportProject,
+  onOpenProjects,
+  onOpenStorage,
+}: AppHeaderProps) {
   return (
     <header className="app-header">
       <div className="header-branding">
@@ -16,16 +41,37 @@ export function AppHeader({ statusMessage, isBusy, canClearProject, onClearProje
           <p className="eyebrow">Flipaclip-style web animator</p>
           <h1>Trace, stylize, and animate fully in the browser.</h1>
           <p className="lede">
-            Import a reference video, auto-generate outlines with TensorFlow.js, draw in layers, and manage a 12 FPS
-            timeline using Konva.
+            Import a reference video, auto-generate outlines with TensorFlow.js, draw in layers, and manage a timeline at
+            any frame rate using Konva.
           </p>
         </div>
       </div>
       <div className="header-actions">
-        <button className="ghost" onClick={onClearProject} disabled={!canClearProject}>
-          Clear project
-        </button>
-        <span className={`status-chip ${isBusy ? 'busy' : ''}`}>{statusMessage}</span>
+        <div className="header-buttons">
+          <button className="ghost" onClick={onOpenProjects} disabled={isBusy}>
+            Projects
+          </button>
+          <button className="ghost" onClick={onImportProject} disabled={isBusy}>
+            Import project
+          </button>
+          <button className="ghost" onClick={onExportProject} disabled={isBusy || !canClearProject}>
+            Export project
+          </button>
+          <button className="ghost" onClick={onOpenStorage} disabled={!canClearProject}>
+            Storage
+          </button>
+          <button className="ghost" onClick={onClearProject} disabled={!canClearProject}>
+            Clear project
+          </button>
+        </div>
+        <div className="header-status">
+          {saveStatus !== 'idle' && (
+            <span className={`save-indicator ${saveStatus}`} role="status">
+              {SAVE_STATUS_LABELS[saveStatus]}
+            </span>
+          )}
+          <span className={`status-chip ${isBusy ? 'busy' : ''}`}>{statusMessage}</span>
+        </div>
       </div>
     </header>
   )
@@ -0,0 +1,148 @@
+import { useState } from 'react'
+import type { AutoTraceJob, AutoTraceRunOptions } from '../types'
+
+interface AutoTraceDialogProps {
+  options: AutoTraceRunOptions
+  frameCount: number
+  activeFrameIndex: number
+  selectedFrameCount: number
+  pendingJob?: AutoTraceJob
+  onRun: (options: AutoTraceRunOptions) => void
+  onResume: () => void
+  onDiscardJob: () => void
+  onOpenSettings: () => void
+  onClose: () => void
+}
+
+const clampPosition = (value: number, frameCount: number) =>
+  Math.min(frameCount, Math.max(1, Math.round(value) || 1))
+
+export function AutoTraceDialog({
+  options,
+  frameCount,
+  activeFrameIndex,
+  selectedFrameCount,
+  pendingJob,
+  onRun,
+  onResume,
+  onDiscardJob,
+  onOpenSettings,
+  onClose,
+}: AutoTraceDialogProps) {
+  const [draft, setDraft] = useState<AutoTraceRunOptions>(() => ({
+    ...options,
+    // A selection from the last run may be gone; tracing the current frame is the safe stand-in
+    scope: options.scope === 'selection' && selectedFrameCount < 2 ? 'current' : options.scope,
+    rangeStart: clampPosition(options.rangeStart, frameCount),
+    rangeEnd: clampPosition(options.rangeEnd || frameCount, frameCount),
+  }))
+
+  const updateDraft = (patch: Partial<AutoTraceRunOptions>) => setDraft((current) => ({ ...current, ...patch }))
+
+  const frameTotal =
+    draft.scope === 'all'
+      ? frameCount
+      : draft.scope === 'current'
+        ? 1
+        : draft.scope === 'selection'
+          ? selectedFrameCount
+          : Math.abs(draft.rangeEnd - draft.rangeStart) + 1
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog auto-trace-dialog">
+        <h3>Auto Trace</h3>
+        <p>Generate outline layers from each frame's visible image layer.</p>
+
+        {pendingJob && (
+          <div className="auto-trace-dialog__resume">
+            <span>
+              An earlier run stopped with {pendingJob.frameIds.length} of {pendingJob.total} frames left.
+            </span>
+            <div className="dialog-actions">
+              <button type="button" className="btn-secondary" onClick={onDiscardJob}>
+                Discard
+              </button>
+              <button type="button" className="btn-primary" onClick={onResume}>
+                Resume
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="delete-scope-toggle auto-trace-dialog__scope">
+          <label>
+            <input
+              type="radio"
+              checked={draft.scope === 'current'}
+              onChange={() => updateDraft({ scope: 'current' })}
+            />
+            Current frame ({activeFrameIndex + 1})
+          </label>
+          {selectedFrameCount > 1 && (
+            <label>
+              <input
+                type="radio"
+                checked={draft.scope === 'selection'}
+                onChange={() => updateDraft({ scope: 'selection' })}
+              />
+              Selected frames ({selectedFrameCount})
+            </label>
+          )}
+          <label>
+            <input
+              type="radio"
+              checked={draft.scope === 'range'}
+              onChange={() => updateDraft({ scope: 'range' })}
+            />
+            Frames
+            <input
+              type="number"
+              min={1}
+              max={frameCount}
+              value={draft.rangeStart}
+              onFocus={() => updateDraft({ scope: 'range' })}
+              onChange={(event) => updateDraft({ rangeStart: clampPosition(Number(event.target.value), frameCount) })}
+              aria-label="First frame"
+            />
+            to
+            <input
+              type="number"
+              min={1}
+              max={frameCount}
+              value={draft.rangeEnd}
+              onFocus={() => updateDraft({ scope: 'range' })}
+              onChange={(event) => updateDraft({ rangeEnd: clampPosition(Number(event.target.value), frameCount) })}
+              aria-label="Last frame"
+            />
+          </label>
+          <label>
+            <input type="radio" checked={draft.scope === 'all'} onChange={() => updateDraft({ scope: 'all' })} />
+            All frames ({frameCount})
+          </label>
+        </div>
+
+        <label className="trace-settings__check">
+          <input
+            type="checkbox"
+            checked={draft.replaceExisting}
+            onChange={(event) => updateDraft({ replaceExisting: event.target.checked })}
+          />
+          Replace existing trace (otherwise frames that already have one are skipped)
+        </label>
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={onOpenSettings}>
+            Settings…
+          </button>
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onRun(draft)}>
+            Trace {frameTotal} frame{frameTotal !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
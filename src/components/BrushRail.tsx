@@ -5,38 +5,52 @@ import GestureIcon from '@mui/icons-material/Gesture'
 import HighlightIcon from '@mui/icons-material/Highlight'
 import GradientIcon from '@mui/icons-material/Gradient'
 import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh'
+import FormatColorFillIcon from '@mui/icons-material/FormatColorFill'
+import HighlightAltIcon from '@mui/icons-material/HighlightAlt'
+import SelectAllIcon from '@mui/icons-material/SelectAll'
+import TuneIcon from '@mui/icons-material/Tune'
 import Button from '@mui/material/Button'
-import type { DrawingTool } from '../types'
+import type { BrushDynamics, EditorTool, OnionSkinSettings } from '../types'
+import { OnionSkinPanel } from './OnionSkinPanel'
 
 interface BrushRailProps {
-  tool: DrawingTool
+  tool: EditorTool
   brushSize: number
   brushColor: string
-  onionSkin: boolean
-  onToolChange: (tool: DrawingTool) => void
+  brushDynamics: BrushDynamics
+  onionSkin: OnionSkinSettings
+  onToolChange: (tool: EditorTool) => void
   onBrushSizeChange: (size: number) => void
   onBrushColorChange: (color: string) => void
-  onToggleOnionSkin: () => void
+  onBrushDynamicsChange: (patch: Partial<BrushDynamics>) => void
+  onOnionSkinChange: (patch: Partial<OnionSkinSettings>) => void
+  onOpenTraceSettings: () => void
   onAutoTrace: () => void
 }
 
-const tools: { label: string; value: DrawingTool; icon: JSX.Element }[] = [
+const tools: { label: string; value: EditorTool; icon: JSX.Element }[] = [
   { label: 'Pencil', value: 'pencil', icon: <CreateIcon fontSize="small" /> },
   { label: 'Smooth', value: 'smooth', icon: <GestureIcon fontSize="small" /> },
   { label: 'Highlight', value: 'highlight', icon: <HighlightIcon fontSize="small" /> },
   { label: 'Gradient', value: 'gradient', icon: <GradientIcon fontSize="small" /> },
   { label: 'Eraser', value: 'eraser', icon: <AutoFixHighIcon fontSize="small" /> },
+  { label: 'Fill', value: 'fill', icon: <FormatColorFillIcon fontSize="small" /> },
+  { label: 'Lasso select', value: 'lasso', icon: <HighlightAltIcon fontSize="small" /> },
+  { label: 'Box select', value: 'marquee', icon: <SelectAllIcon fontSize="small" /> },
 ]
 
 export function BrushRail({
   tool,
   brushSize,
   brushColor,
+  brushDynamics,
   onionSkin,
   onToolChange,
   onBrushSizeChange,
   onBrushColorChange,
-  onToggleOnionSkin,
+  onBrushDynamicsChange,
+  onOnionSkinChange,
+  onOpenTraceSettings,
   onAutoTrace,
 }: BrushRailProps) {
   const dragState = useRef<{ startY: number; startSize: number } | null>(null)
@@ -129,14 +143,25 @@ export function BrushRail({
           />
         </div>
       </div>
-      <div className="onion-skin-toggle">
+      <div className="brush-dynamics" title="Pen pressure and tilt, or drawing speed with a mouse">
         <label className="toggle-label">
-          <span>Onion</span>
-          <div className="toggle-switch" onClick={onToggleOnionSkin}>
-            <div className={`toggle-slider ${onionSkin ? 'active' : ''}`}></div>
+          <span>Taper</span>
+          <div className="toggle-switch" onClick={() => onBrushDynamicsChange({ width: !brushDynamics.width })}>
+            <div className={`toggle-slider ${brushDynamics.width ? 'active' : ''}`}></div>
+          </div>
+        </label>
+        <label className="toggle-label" title="Pen pressure sets each stroke's opacity">
+          <span>Opacity</span>
+          <div className="toggle-switch" onClick={() => onBrushDynamicsChange({ opacity: !brushDynamics.opacity })}>
+            <div className={`toggle-slider ${brushDynamics.opacity ? 'active' : ''}`}></div>
           </div>
         </label>
       </div>
+      <OnionSkinPanel settings={onionSkin} onChange={onOnionSkinChange} />
+      <button onClick={onOpenTraceSettings} aria-label="Trace settings" title="Trace settings">
+        <TuneIcon fontSize="small" />
+        <span className="brush-tool-label">Trace settings</span>
+      </button>
       <Button
         variant="contained"
         color="primary"
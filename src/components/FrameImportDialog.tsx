@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import type { FrameImportOptions } from '../types'
+import { FrameRateSelect } from './FrameRateSelect'
+
+interface FrameImportDialogProps {
+  files: File[]
+  fps: number  // Starting rate for a new project; inserted frames always use it
+  frameCount?: number  // Frames in the open project; enables inserting into it
+  activeFrameIndex?: number
+  onImport: (options: FrameImportOptions) => void
+  onClose: () => void
+}
+
+const countLabel = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`
+
+const describeFiles = (files: File[]) => {
+  const gifs = files.filter((file) => /\.gif$/i.test(file.name)).length
+  const zips = files.filter((file) => /\.zip$/i.test(file.name)).length
+  const images = files.length - gifs - zips
+  return [
+    images && countLabel(images, 'image', 'images'),
+    gifs && countLabel(gifs, 'GIF', 'GIFs'),
+    zips && countLabel(zips, 'ZIP archive', 'ZIP archives'),
+  ]
+    .filter(Boolean)
+    .join(', ')
+}
+
+export function FrameImportDialog({
+  files,
+  fps,
+  frameCount,
+  activeFrameIndex = 0,
+  onImport,
+  onClose,
+}: FrameImportDialogProps) {
+  const [draft, setDraft] = useState<FrameImportOptions>(() => ({
+    placement: frameCount ? 'insert-frames' : 'new-project',
+    position: activeFrameIndex + 2,
+    fps,
+  }))
+
+  const updateDraft = (patch: Partial<FrameImportOptions>) => setDraft((current) => ({ ...current, ...patch }))
+
+  const isInserting = draft.placement === 'insert-frames'
+  const importOptions: FrameImportOptions = { ...draft, fps: isInserting ? fps : draft.fps }
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog frame-import">
+        <h3>Import frames</h3>
+        <p>
+          {describeFiles(files)}. Stills become one frame each in file-name order; GIFs and ZIP contents are
+          expanded in place.
+        </p>
+
+        {frameCount !== undefined && (
+          <div className="delete-scope-toggle frame-import__placement">
+            <label>
+              <input
+                type="radio"
+                checked={draft.placement === 'new-project'}
+                onChange={() => updateDraft({ placement: 'new-project' })}
+              />
+              New project (replaces the open one)
+            </label>
+            <label>
+              <input type="radio" checked={isInserting} onChange={() => updateDraft({ placement: 'insert-frames' })} />
+              Insert at position
+              <input
+                type="number"
+                min={1}
+                max={frameCount + 1}
+                value={draft.position}
+                onFocus={() => updateDraft({ placement: 'insert-frames' })}
+                onChange={(event) =>
+                  updateDraft({
+                    position: Math.min(frameCount + 1, Math.max(1, Math.round(Number(event.target.value)) || 1)),
+                  })
+                }
+                aria-label="Insert position"
+              />
+            </label>
+          </div>
+        )}
+
+        <FrameRateSelect
+          value={importOptions.fps}
+          onChange={(value) => updateDraft({ fps: value })}
+          disabled={isInserting}
+          label="Frame rate"
+        />
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onImport(importOptions)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { FPS_PRESETS, MAX_FPS, MIN_FPS, clampFps } from '../utils/project'
+
+interface FrameRateSelectProps {
+  value: number
+  onChange: (fps: number) => void
+  disabled?: boolean
+  className?: string
+  label?: string
+}
+
+const CUSTOM_VALUE = 'custom'
+
+export function FrameRateSelect({ value, onChange, disabled, className, label = 'FPS' }: FrameRateSelectProps) {
+  const [isCustom, setIsCustom] = useState(() => !FPS_PRESETS.includes(value))
+  const showCustomInput = isCustom || !FPS_PRESETS.includes(value)
+  // Raw text while the custom field is being edited; clamped and applied on blur or Enter
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commitDraft = () => {
+    if (draft === null) return
+    const fps = Number(draft)
+    if (draft.trim() && Number.isFinite(fps)) onChange(clampFps(fps))
+    setDraft(null)
+  }
+
+  return (
+    <label className={['frame-rate-select', className].filter(Boolean).join(' ')}>
+      <span>{label}</span>
+      <select
+        value={showCustomInput ? CUSTOM_VALUE : String(value)}
+        disabled={disabled}
+        onChange={(event) => {
+          if (event.target.value === CUSTOM_VALUE) {
+            setIsCustom(true)
+            return
+          }
+          setIsCustom(false)
+          onChange(Number(event.target.value))
+        }}
+      >
+        {FPS_PRESETS.map((fps) => (
+          <option key={fps} value={fps}>
+            {fps}
+          </option>
+        ))}
+        <option value={CUSTOM_VALUE}>Custom…</option>
+      </select>
+      {showCustomInput && (
+        <input
+          type="number"
+          min={MIN_FPS}
+          max={MAX_FPS}
+          value={draft ?? value}
+          disabled={disabled}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') commitDraft()
+          }}
+        />
+      )}
+    </label>
+  )
+}
@@ -1,5 +1,20 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import type { FrameData } from '../types'
+import { DEFAULT_FPS, getFrameSelection } from '../utils/project'
+import { getAssetUrl } from '../utils/assets'
+import {
+  clampFrameDuration,
+  getFrameDuration,
+  getFrameIndexAtTick,
+  getFrameStartTick,
+  getTotalTicks,
+  MAX_FRAME_DURATION,
+} from '../utils/timing'
+
+// Horizontal drag distance that adds or removes one tick of hold
+const HOLD_DRAG_STEP = 24
+const FRAME_BASE_WIDTH = 80
+const MAX_VISUAL_HOLD = 8
 
 interface FrameTimelineProps {
   frames: FrameData[]
@@ -8,8 +23,17 @@ interface FrameTimelineProps {
   layout?: 'grid' | 'rail'
   onInsertFrame?: (frameId: string, direction: 'left' | 'right') => void
   onDeleteFrame?: (frameId: string) => void
+  onFrameDurationChange?: (frameId: string, duration: number) => void
   audioUrl?: string
   fps?: number
+  selectedFrameIds?: string[]  // Extra frames selected alongside the active one (shift/ctrl-click)
+  onSelectionChange?: (frameIds: string[]) => void
+  onMoveFrames?: (frameIds: string[], targetIndex: number) => void
+  onDuplicateFrames?: (frameIds: string[]) => void
+  onCopyFrames?: (frameIds: string[]) => void
+  onCutFrames?: (frameIds: string[]) => void
+  onPasteFrames?: () => void  // Present only while frames are on the clipboard
+  onDeleteFrames?: (frameIds: string[]) => void
 }
 
 export function FrameTimeline({
@@ -19,16 +43,34 @@ export function FrameTimeline({
   layout = 'grid',
   onInsertFrame,
   onDeleteFrame,
+  onFrameDurationChange,
   audioUrl,
-  fps = 12,
+  fps = DEFAULT_FPS,
+  selectedFrameIds = [],
+  onSelectionChange,
+  onMoveFrames,
+  onDuplicateFrames,
+  onCopyFrames,
+  onCutFrames,
+  onPasteFrames,
+  onDeleteFrames,
 }: FrameTimelineProps) {
   const isEmpty = frames.length === 0
   const [isPlaying, setIsPlaying] = useState(false)
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const animationRef = useRef<number | null>(null)
   const startTimeRef = useRef<number>(0)
-  const startFrameRef = useRef<number>(0)
+  const startTickRef = useRef<number>(0)
   const lastFrameIndexRef = useRef<number>(-1)
+  const holdDragRef = useRef<{ frameId: string; startX: number; startDuration: number } | null>(null)
+  const [holdPreview, setHoldPreview] = useState<{ frameId: string; duration: number } | null>(null)
+  // Shift-click extends the selection from here
+  const selectionAnchorRef = useRef<string | null>(null)
+  const draggedFrameIdsRef = useRef<string[] | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const selection = getFrameSelection(frames, selectedFrameIds, activeFrameId)
+  const selectedSet = new Set(selection)
 
   // Get current frame index
   const currentFrameIndex = frames.findIndex(f => f.id === activeFrameId)
@@ -52,27 +94,27 @@ export function FrameTimeline({
     }
 
     const elapsed = timestamp - startTimeRef.current
-    const frameDuration = 1000 / fps
-    const frameOffset = Math.floor(elapsed / frameDuration)
-    const targetFrameIndex = (startFrameRef.current + frameOffset) % frames.length
-
-    // Only update if frame actually changed to avoid redundant re-renders
-    if (targetFrameIndex !== lastFrameIndexRef.current && frames[targetFrameIndex]) {
-      lastFrameIndexRef.current = targetFrameIndex
-      onSelectFrame(frames[targetFrameIndex].id)
-    }
+    const tickDuration = 1000 / fps
+    let tick = startTickRef.current + Math.floor(elapsed / tickDuration)
 
-    // Loop back to start when we've gone through all frames
-    if (targetFrameIndex >= frames.length - 1 && frameOffset > 0) {
-      // Reset for loop
+    // Loop back to start once every held tick has been shown
+    if (tick >= getTotalTicks(frames)) {
       startTimeRef.current = timestamp
-      startFrameRef.current = 0
-      lastFrameIndexRef.current = -1
+      startTickRef.current = 0
+      tick = 0
       if (audioRef.current) {
         audioRef.current.currentTime = 0
       }
     }
 
+    const targetFrameIndex = getFrameIndexAtTick(frames, tick)
+
+    // Only update if frame actually changed to avoid redundant re-renders
+    if (targetFrameIndex !== lastFrameIndexRef.current && frames[targetFrameIndex]) {
+      lastFrameIndexRef.current = targetFrameIndex
+      onSelectFrame(frames[targetFrameIndex].id)
+    }
+
     animationRef.current = requestAnimationFrame(animate)
   }, [frames, fps, onSelectFrame])
 
@@ -91,18 +133,143 @@ export function FrameTimeline({
       // Play
       setIsPlaying(true)
       startTimeRef.current = 0
-      startFrameRef.current = currentFrameIndex >= 0 ? currentFrameIndex : 0
+      startTickRef.current = getFrameStartTick(frames, currentFrameIndex >= 0 ? currentFrameIndex : 0)
+      lastFrameIndexRef.current = -1
       
       // Start audio from corresponding position
       if (audioRef.current && audioUrl) {
-        const startTime = startFrameRef.current / fps
+        const startTime = startTickRef.current / fps
         audioRef.current.currentTime = startTime
         audioRef.current.play().catch(console.error)
       }
       
       animationRef.current = requestAnimationFrame(animate)
     }
-  }, [isPlaying, currentFrameIndex, fps, audioUrl, animate])
+  }, [isPlaying, currentFrameIndex, frames, fps, audioUrl, animate])
+
+  const handleHoldPointerDown = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>, frame: FrameData) => {
+      event.preventDefault()
+      event.stopPropagation()
+      holdDragRef.current = { frameId: frame.id, startX: event.clientX, startDuration: getFrameDuration(frame) }
+      setHoldPreview({ frameId: frame.id, duration: getFrameDuration(frame) })
+      event.currentTarget.setPointerCapture(event.pointerId)
+    },
+    [],
+  )
+
+  const handleHoldPointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = holdDragRef.current
+    if (!drag) return
+    const delta = Math.round((event.clientX - drag.startX) / HOLD_DRAG_STEP)
+    setHoldPreview({ frameId: drag.frameId, duration: clampFrameDuration(drag.startDuration + delta) })
+  }, [])
+
+  const handleHoldPointerEnd = useCallback(
+    (event: React.PointerEvent<HTMLDivElement>) => {
+      const drag = holdDragRef.current
+      if (!drag) return
+      holdDragRef.current = null
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId)
+      }
+      if (holdPreview && holdPreview.duration !== drag.startDuration) {
+        onFrameDurationChange?.(drag.frameId, holdPreview.duration)
+      }
+      setHoldPreview(null)
+    },
+    [holdPreview, onFrameDurationChange],
+  )
+
+  const handleFrameClick = (event: React.MouseEvent, frame: FrameData) => {
+    if (!onSelectionChange) {
+      onSelectFrame(frame.id)
+      return
+    }
+    const anchorId = selectionAnchorRef.current ?? activeFrameId
+    const anchorIndex = frames.findIndex((candidate) => candidate.id === anchorId)
+    if (event.shiftKey && anchorIndex !== -1) {
+      const clickedIndex = frames.indexOf(frame)
+      const [first, last] = [Math.min(anchorIndex, clickedIndex), Math.max(anchorIndex, clickedIndex)]
+      onSelectionChange(frames.slice(first, last + 1).map((candidate) => candidate.id))
+      onSelectFrame(frame.id)
+      return
+    }
+    selectionAnchorRef.current = frame.id
+    if (event.ctrlKey || event.metaKey) {
+      if (!selectedSet.has(frame.id)) {
+        onSelectionChange([...selection, frame.id])
+        onSelectFrame(frame.id)
+      } else if (selection.length > 1) {
+        const remaining = selection.filter((frameId) => frameId !== frame.id)
+        onSelectionChange(remaining)
+        if (frame.id === activeFrameId) onSelectFrame(remaining[remaining.length - 1])
+      }
+      return
+    }
+    onSelectionChange([frame.id])
+    onSelectFrame(frame.id)
+  }
+
+  const handleStripKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement
+    if (target.tagName === 'INPUT' || !selection.length) return
+    if ((event.key === 'Delete' || event.key === 'Backspace') && onDeleteFrames) {
+      event.preventDefault()
+      onDeleteFrames(selection)
+      return
+    }
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey) return
+    const actions: Record<string, (() => void) | undefined> = {
+      a: onSelectionChange && (() => onSelectionChange(frames.map((frame) => frame.id))),
+      c: onCopyFrames && (() => onCopyFrames(selection)),
+      x: onCutFrames && (() => onCutFrames(selection)),
+      v: onPasteFrames,
+      d: onDuplicateFrames && (() => onDuplicateFrames(selection)),
+    }
+    const action = actions[event.key.toLowerCase()]
+    if (action) {
+      event.preventDefault()
+      action()
+    }
+  }
+
+  const handleDragStart = (event: React.DragEvent<HTMLButtonElement>, frame: FrameData) => {
+    const frameIds = selectedSet.has(frame.id) ? selection : [frame.id]
+    if (!selectedSet.has(frame.id)) {
+      onSelectionChange?.([frame.id])
+      onSelectFrame(frame.id)
+    }
+    draggedFrameIdsRef.current = frameIds
+    event.dataTransfer.effectAllowed = 'move'
+    event.dataTransfer.setData('text/plain', frameIds.join(','))
+  }
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>, index: number) => {
+    if (!draggedFrameIdsRef.current) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    // Left half of the thumbnail drops before it, right half after; the hold tail counts as after
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const isAfter = event.clientX > bounds.left + FRAME_BASE_WIDTH / 2
+    setDropIndex(index + (isAfter ? 1 : 0))
+  }
+
+  const handleDragEnd = () => {
+    draggedFrameIdsRef.current = null
+    setDropIndex(null)
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    const frameIds = draggedFrameIdsRef.current
+    if (!frameIds || dropIndex === null) return
+    event.preventDefault()
+    onMoveFrames?.(frameIds, dropIndex)
+    handleDragEnd()
+  }
+
+  const hasSelectionActions = onDuplicateFrames || onCopyFrames || onCutFrames || onDeleteFrames
+  const showSelectionActions = hasSelectionActions && (selection.length > 1 || onPasteFrames)
 
   // Stop playing when frames change significantly
   useEffect(() => {
@@ -152,129 +319,238 @@ export function FrameTimeline({
         />
       )}
       
-      <div className={layout === 'rail' ? 'timeline-strip rail' : 'timeline-strip'}>
-        {frames.map((frame) => (
-          <div className="timeline-frame-wrapper" key={frame.id}>
+      {showSelectionActions && (
+        <div className="timeline-selection-actions" aria-label="Selected frames">
+          <span>{selection.length} selected</span>
+          {onDuplicateFrames && (
+            <button type="button" onClick={() => onDuplicateFrames(selection)} title="Duplicate (Ctrl+D)">
+              Duplicate
+            </button>
+          )}
+          {onCopyFrames && (
+            <button type="button" onClick={() => onCopyFrames(selection)} title="Copy (Ctrl+C)">
+              Copy
+            </button>
+          )}
+          {onCutFrames && (
             <button
-              className={frame.id === activeFrameId ? 'timeline-frame active' : 'timeline-frame'}
-              onClick={() => onSelectFrame(frame.id)}
+              type="button"
+              onClick={() => onCutFrames(selection)}
+              disabled={selection.length >= frames.length}
+              title="Cut (Ctrl+X)"
             >
-              <div className="frame-preview">
-                {(() => {
-                  // Find first visible layer with an image, or fall back to base image
-                  const layerImage = frame.layers.find((layer) => layer.visible && layer.imageUrl)?.imageUrl
-                  const previewSrc = layerImage || frame.imageUrl
-                  // Only render img if we have a valid source
-                  if (previewSrc) {
-                    return <img src={previewSrc} alt={`Frame ${frame.frameNumber + 1}`} />
-                  }
-                  // Show placeholder for frames with no visible images
-                  return (
-                    <div 
-                      className="frame-placeholder" 
-                      style={{ 
-                        width: '100%', 
-                        height: '100%', 
-                        background: '#1e293b',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        fontSize: '10px',
-                        color: 'rgba(255,255,255,0.4)'
-                      }}
-                    >
-                      No layers
-                    </div>
-                  )
-                })()}
-                <canvas 
-                  className="frame-canvas-overlay"
-                  width="80"
-                  height="50"
-                  ref={(canvas) => {
-                    if (canvas && frame.layers) {
-                      const ctx = canvas.getContext('2d')
-                      if (ctx) {
-                        ctx.clearRect(0, 0, 80, 50)
-                        const scaleX = 80 / (frame.width || 720)
-                        const scaleY = 50 / (frame.height || 405)
-                        
-                        frame.layers.forEach(layer => {
-                          if (layer.visible) {
-                            layer.strokes.forEach(stroke => {
-                              // Skip eraser strokes in frame previews
-                              if (stroke.mode === 'eraser') return
-                              
-                              if (stroke.points.length > 2) {
-                                ctx.beginPath()
-                                ctx.strokeStyle = stroke.color
-                                ctx.lineWidth = (stroke.size * scaleX) * 0.5
-                                ctx.lineCap = 'round'
-                                ctx.lineJoin = 'round'
+              Cut
+            </button>
+          )}
+          {onPasteFrames && (
+            <button type="button" onClick={onPasteFrames} title="Paste after the current frame (Ctrl+V)">
+              Paste
+            </button>
+          )}
+          {onDeleteFrames && (
+            <button
+              type="button"
+              className="danger"
+              onClick={() => onDeleteFrames(selection)}
+              disabled={selection.length >= frames.length}
+              title="Delete (Del)"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      <div
+        className={layout === 'rail' ? 'timeline-strip rail' : 'timeline-strip'}
+        onKeyDown={handleStripKeyDown}
+      >
+        {frames.map((frame, index) => {
+          const duration = holdPreview?.frameId === frame.id ? holdPreview.duration : getFrameDuration(frame)
+          const wrapperWidth = FRAME_BASE_WIDTH + (Math.min(duration, MAX_VISUAL_HOLD) - 1) * HOLD_DRAG_STEP
+          const frameClassName = [
+            'timeline-frame',
+            frame.id === activeFrameId && 'active',
+            selection.length > 1 && selectedSet.has(frame.id) && 'selected',
+          ]
+            .filter(Boolean)
+            .join(' ')
+          const wrapperClassName = [
+            'timeline-frame-wrapper',
+            dropIndex === index && 'drop-before',
+            dropIndex === frames.length && index === frames.length - 1 && 'drop-after',
+          ]
+            .filter(Boolean)
+            .join(' ')
+          return (
+            <div
+              className={wrapperClassName}
+              key={frame.id}
+              style={{ width: wrapperWidth }}
+              onDragOver={(event) => handleDragOver(event, index)}
+              onDrop={handleDrop}
+            >
+              <button
+                className={frameClassName}
+                onClick={(event) => handleFrameClick(event, frame)}
+                draggable={Boolean(onMoveFrames)}
+                onDragStart={(event) => handleDragStart(event, frame)}
+                onDragEnd={handleDragEnd}
+                style={{ width: FRAME_BASE_WIDTH }}
+              >
+                <div className="frame-preview">
+                  {(() => {
+                    // Find first visible layer with an image, or fall back to base image
+                    const layerImage = frame.layers.find((layer) => layer.visible && layer.imageId)?.imageId
+                    const previewSrc = getAssetUrl(layerImage || frame.imageId)
+                    // Only render img if we have a valid source
+                    if (previewSrc) {
+                      return <img src={previewSrc} alt={`Frame ${frame.frameNumber + 1}`} />
+                    }
+                    // Show placeholder for frames with no visible images
+                    return (
+                      <div 
+                        className="frame-placeholder" 
+                        style={{ 
+                          width: '100%', 
+                          height: '100%', 
+                          background: '#1e293b',
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          fontSize: '10px',
+                          color: 'rgba(255,255,255,0.4)'
+                        }}
+                      >
+                        No layers
+                      </div>
+                    )
+                  })()}
+                  <canvas 
+                    className="frame-canvas-overlay"
+                    width="80"
+                    height="50"
+                    ref={(canvas) => {
+                      if (canvas && frame.layers) {
+                        const ctx = canvas.getContext('2d')
+                        if (ctx) {
+                          ctx.clearRect(0, 0, 80, 50)
+                          const scaleX = 80 / (frame.width || 720)
+                          const scaleY = 50 / (frame.height || 405)
+                          
+                          frame.layers.forEach(layer => {
+                            if (layer.visible) {
+                              layer.strokes.forEach(stroke => {
+                                // Skip eraser strokes in frame previews
+                                if (stroke.mode === 'eraser') return
                                 
-                                for (let i = 0; i < stroke.points.length; i += 2) {
-                                  const x = stroke.points[i] * scaleX
-                                  const y = stroke.points[i + 1] * scaleY
-                                  if (i === 0) ctx.moveTo(x, y)
-                                  else ctx.lineTo(x, y)
+                                if (stroke.points.length > 2) {
+                                  ctx.beginPath()
+                                  ctx.strokeStyle = stroke.color
+                                  ctx.lineWidth = (stroke.size * scaleX) * 0.5
+                                  ctx.lineCap = 'round'
+                                  ctx.lineJoin = 'round'
+                                  
+                                  for (let i = 0; i < stroke.points.length; i += 2) {
+                                    const x = stroke.points[i] * scaleX
+                                    const y = stroke.points[i + 1] * scaleY
+                                    if (i === 0) ctx.moveTo(x, y)
+                                    else ctx.lineTo(x, y)
+                                  }
+                                  ctx.stroke()
                                 }
-                                ctx.stroke()
-                              }
-                            })
-                          }
-                        })
+                              })
+                            }
+                          })
+                        }
                       }
-                    }
-                  }}
-                />
-              </div>
-              <span>#{frame.frameNumber + 1}</span>
-            </button>
-            {(onInsertFrame || onDeleteFrame) && (
-              <div className="frame-insert-controls">
-                {onInsertFrame && (
-                  <>
-                    <button
-                      className="insert-btn left"
-                      type="button"
-                      aria-label={`Add frame before #${frame.frameNumber + 1}`}
-                      onClick={(event) => {
-                        event.stopPropagation()
-                        onInsertFrame(frame.id, 'left')
-                      }}
-                    >
-                      +
-                    </button>
+                    }}
+                  />
+                </div>
+                <span>
+                  #{frame.frameNumber + 1}
+                  {duration > 1 && <span className="frame-hold-badge">×{duration}</span>}
+                </span>
+              </button>
+              {duration > 1 && <div className="frame-hold-tail" style={{ left: FRAME_BASE_WIDTH }} />}
+              {onFrameDurationChange && (
+                <>
+                  <div
+                    className="frame-hold-handle"
+                    role="slider"
+                    aria-label={`Hold length for frame #${frame.frameNumber + 1}`}
+                    aria-valuemin={1}
+                    aria-valuemax={MAX_FRAME_DURATION}
+                    aria-valuenow={duration}
+                    title="Drag to hold this drawing for more ticks"
+                    onPointerDown={(event) => handleHoldPointerDown(event, frame)}
+                    onPointerMove={handleHoldPointerMove}
+                    onPointerUp={handleHoldPointerEnd}
+                    onPointerCancel={handleHoldPointerEnd}
+                  />
+                  <input
+                    className="frame-hold-input"
+                    type="number"
+                    min={1}
+                    max={MAX_FRAME_DURATION}
+                    value={duration}
+                    title="Hold (ticks)"
+                    aria-label={`Hold ticks for frame #${frame.frameNumber + 1}`}
+                    onChange={(event) => {
+                      const next = clampFrameDuration(Number(event.target.value))
+                      if (next !== getFrameDuration(frame)) {
+                        onFrameDurationChange(frame.id, next)
+                      }
+                    }}
+                  />
+                </>
+              )}
+              {(onInsertFrame || onDeleteFrame) && (
+                <div className="frame-insert-controls">
+                  {onInsertFrame && (
+                    <>
+                      <button
+                        className="insert-btn left"
+                        type="button"
+                        aria-label={`Add frame before #${frame.frameNumber + 1}`}
+                        onClick={(event) => {
+                          event.stopPropagation()
+                          onInsertFrame(frame.id, 'left')
+                        }}
+                      >
+                        +
+                      </button>
+                      <button
+                        className="insert-btn right"
+                        type="button"
+                        aria-label={`Add frame after #${frame.frameNumber + 1}`}
+                        onClick={(event) => {
+                          event.stopPropagation()
+                          onInsertFrame(frame.id, 'right')
+                        }}
+                      >
+                        +
+                      </button>
+                    </>
+                  )}
+                  {onDeleteFrame && frames.length > 1 && (
                     <button
-                      className="insert-btn right"
+                      className="delete-btn"
                       type="button"
-                      aria-label={`Add frame after #${frame.frameNumber + 1}`}
+                      aria-label={`Delete frame #${frame.frameNumber + 1}`}
                       onClick={(event) => {
                         event.stopPropagation()
-                        onInsertFrame(frame.id, 'right')
+                        onDeleteFrame(frame.id)
                       }}
                     >
-                      +
+                      ×
                     </button>
-                  </>
-                )}
-                {onDeleteFrame && frames.length > 1 && (
-                  <button
-                    className="delete-btn"
-                    type="button"
-                    aria-label={`Delete frame #${frame.frameNumber + 1}`}
-                    onClick={(event) => {
-                      event.stopPropagation()
-                      onDeleteFrame(frame.id)
-                    }}
-                  >
-                    ×
-                  </button>
-                )}
-              </div>
-            )}
-          </div>
-        ))}
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
       </div>
     </div>
   )
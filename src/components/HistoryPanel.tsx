@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react'
+import type { HistoryEntry } from '../hooks/useProjectHistory'
+import { MAX_HISTORY_DEPTH, MIN_HISTORY_DEPTH } from '../hooks/useProjectHistory'
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  depth: number
+  onGoTo: (position: number) => void
+  onDepthChange: (depth: number) => void
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export function HistoryPanel({ past, future, depth, onGoTo, onDepthChange }: HistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+  const listRef = useRef<HTMLOListElement | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!panelRef.current) return
+      if (!panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    window.addEventListener('mousedown', handleClickOutside)
+    return () => window.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    listRef.current?.querySelector('.history-panel__item.current')?.scrollIntoView({ block: 'nearest' })
+  }, [isOpen, past.length])
+
+  const position = past.length
+
+  return (
+    <div className="history-panel" ref={panelRef}>
+      <button
+        type="button"
+        className="stage-toolbar__btn"
+        onClick={() => setIsOpen((value) => !value)}
+        aria-expanded={isOpen}
+        aria-label="History"
+        title="History"
+      >
+        ☰
+      </button>
+      {isOpen && (
+        <div className="history-panel__dropdown">
+          <div className="layer-panel__header">
+            <span className="layer-panel__title">History</span>
+            <span className="history-panel__count">{past.length + future.length} steps</span>
+          </div>
+          <ol className="history-panel__list" ref={listRef}>
+            <li>
+              <button
+                type="button"
+                className={`history-panel__item${position === 0 ? ' current' : ''}`}
+                onClick={() => onGoTo(0)}
+              >
+                <span>Start</span>
+              </button>
+            </li>
+            {past.map((entry, index) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className={`history-panel__item${position === index + 1 ? ' current' : ''}`}
+                  onClick={() => onGoTo(index + 1)}
+                >
+                  <span>{entry.label}</span>
+                  <time>{formatTime(entry.timestamp)}</time>
+                </button>
+              </li>
+            ))}
+            {future.map((entry, index) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className="history-panel__item undone"
+                  onClick={() => onGoTo(position + index + 1)}
+                >
+                  <span>{entry.label}</span>
+                  <time>{formatTime(entry.timestamp)}</time>
+                </button>
+              </li>
+            ))}
+          </ol>
+          <label className="history-panel__depth">
+            <span>Keep last</span>
+            <input
+              type="number"
+              min={MIN_HISTORY_DEPTH}
+              max={MAX_HISTORY_DEPTH}
+              value={depth}
+              onChange={(event) => onDepthChange(Number(event.target.value))}
+            />
+            <span>steps</span>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,37 @@
 import { useState, useEffect, useMemo } from 'react'
-import type { FrameData, DrawingLayer } from '../types'
+import type { FrameData, DrawingLayer, ExportKind, ExportOptions, GifExportOptions } from '../types'
+import { DEFAULT_GIF_OPTIONS } from '../utils/export'
 
 interface MovieGeneratorProps {
   frames: FrameData[]
   onClose: () => void
-  onGenerate: (layerSettings: Record<string, boolean>) => void
+  onGenerate: (layerSettings: Record<string, boolean>, options: ExportOptions) => void
 }
 
+const formatOptions: { label: string; value: ExportKind }[] = [
+  { label: 'MP4 video', value: 'mp4' },
+  { label: 'Animated GIF', value: 'gif' },
+  { label: 'PNG sequence', value: 'png-sequence' },
+]
+
+const gifWidthOptions: { label: string; value: number | null }[] = [
+  { label: 'Original size', value: null },
+  { label: '720px', value: 720 },
+  { label: '480px', value: 480 },
+  { label: '320px', value: 320 },
+]
+
+const optionRowStyle = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', marginBottom: '10px' }
+
 export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorProps) {
   const [layerSettings, setLayerSettings] = useState<Record<string, boolean>>({})
   const [applyCurrentSettings, setApplyCurrentSettings] = useState(false)
+  const [exportKind, setExportKind] = useState<ExportKind>('mp4')
+  const [gifOptions, setGifOptions] = useState<GifExportOptions>(DEFAULT_GIF_OPTIONS)
+
+  const updateGifOptions = (patch: Partial<GifExportOptions>) => {
+    setGifOptions(prev => ({ ...prev, ...patch }))
+  }
 
   // Get all unique layers by name across all frames
   const allLayers = useMemo(() => {
@@ -45,6 +67,7 @@ export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorPr
   }
 
   const handleGenerate = () => {
+    const options: ExportOptions = { kind: exportKind, gif: gifOptions }
     if (applyCurrentSettings) {
       // Use current frame's layer settings
       const currentSettings: Record<string, boolean> = {}
@@ -53,9 +76,9 @@ export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorPr
           currentSettings[layer.name] = layer.visible
         })
       }
-      onGenerate(currentSettings)
+      onGenerate(currentSettings, options)
     } else {
-      onGenerate(layerSettings)
+      onGenerate(layerSettings, options)
     }
   }
 
@@ -81,6 +104,60 @@ export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorPr
           </button>
         </div>
         
+        <div className="delete-scope-toggle">
+          {formatOptions.map(option => (
+            <label key={option.value}>
+              <input
+                type="radio"
+                value={option.value}
+                checked={exportKind === option.value}
+                onChange={() => setExportKind(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {exportKind === 'gif' && (
+          <div style={{ marginBottom: '20px' }}>
+            <h4 style={{ marginBottom: '10px' }}>GIF options</h4>
+            <label style={optionRowStyle}>
+              <span>Loop</span>
+              <select
+                value={gifOptions.loop}
+                onChange={(e) => updateGifOptions({ loop: Number(e.target.value) })}
+              >
+                <option value={0}>Forever</option>
+                <option value={-1}>Play once</option>
+                <option value={1}>Twice</option>
+                <option value={2}>3 times</option>
+              </select>
+            </label>
+            <label style={optionRowStyle}>
+              <span>Max width</span>
+              <select
+                value={gifOptions.maxWidth ?? ''}
+                onChange={(e) => updateGifOptions({ maxWidth: e.target.value ? Number(e.target.value) : null })}
+              >
+                {gifWidthOptions.map(option => (
+                  <option key={option.label} value={option.value ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={gifOptions.dither}
+                onChange={(e) => updateGifOptions({ dither: e.target.checked })}
+                style={{ marginRight: '8px' }}
+              />
+              Dither colors (smoother gradients, larger file)
+            </label>
+          </div>
+        )}
+
         <div style={{ marginBottom: '20px' }}>
           <label style={{ display: 'flex', alignItems: 'center', marginBottom: '15px' }}>
             <input
@@ -94,7 +171,7 @@ export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorPr
 
           {!applyCurrentSettings && (
             <div>
-              <h4 style={{ marginBottom: '10px' }}>Select layers to include in movie:</h4>
+              <h4 style={{ marginBottom: '10px' }}>Select layers to include in export:</h4>
               {allLayers.map(layer => (
                 <label key={layer.name} style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
                   <input
@@ -115,7 +192,7 @@ export function MovieGenerator({ frames, onClose, onGenerate }: MovieGeneratorPr
             Cancel
           </button>
           <button className="btn-primary" onClick={handleGenerate}>
-            Generate Movie
+            {exportKind === 'gif' ? 'Generate GIF' : exportKind === 'png-sequence' ? 'Download ZIP' : 'Generate Movie'}
           </button>
         </div>
       </div>
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react'
+import SettingsIcon from '@mui/icons-material/Settings'
+import type { OnionSkinSettings } from '../types'
+import { MAX_ONION_RANGE } from '../utils/onionSkin'
+
+interface OnionSkinPanelProps {
+  settings: OnionSkinSettings
+  onChange: (patch: Partial<OnionSkinSettings>) => void
+}
+
+interface SliderOption {
+  key: 'before' | 'after' | 'opacity' | 'falloff'
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+const frames = (value: number) => String(value)
+
+const sliders: SliderOption[] = [
+  { key: 'before', label: 'Frames before', min: 0, max: MAX_ONION_RANGE, step: 1, format: frames },
+  { key: 'after', label: 'Frames after', min: 0, max: MAX_ONION_RANGE, step: 1, format: frames },
+  { key: 'opacity', label: 'Opacity', min: 0.05, max: 1, step: 0.05, format: percent },
+  { key: 'falloff', label: 'Falloff', min: 0, max: 0.9, step: 0.05, format: percent },
+]
+
+export function OnionSkinPanel({ settings, onChange }: OnionSkinPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!panelRef.current) return
+      if (!panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    window.addEventListener('mousedown', handleClickOutside)
+    return () => window.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  return (
+    <div className="onion-skin-toggle" ref={panelRef}>
+      <label className="toggle-label">
+        <span>Onion</span>
+        <div className="toggle-switch" onClick={() => onChange({ enabled: !settings.enabled })}>
+          <div className={`toggle-slider ${settings.enabled ? 'active' : ''}`}></div>
+        </div>
+      </label>
+      <button
+        type="button"
+        className={`onion-skin-panel__trigger ${isOpen ? 'active' : ''}`}
+        onClick={() => setIsOpen((value) => !value)}
+        aria-expanded={isOpen}
+        aria-label="Onion skin settings"
+        title="Onion skin settings"
+      >
+        <SettingsIcon fontSize="small" />
+        <span className="brush-tool-label">Onion settings</span>
+      </button>
+      {isOpen && (
+        <div className="onion-skin-panel">
+          <div className="onion-skin-panel__title">Onion skin</div>
+          {sliders.map(({ key, label, min, max, step, format }) => (
+            <label key={key} className={`onion-skin-panel__row${settings.enabled ? '' : ' disabled'}`}>
+              <span>{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                disabled={!settings.enabled}
+                onChange={(event) => onChange({ [key]: Number(event.target.value) })}
+              />
+              <output>{format(settings[key])}</output>
+            </label>
+          ))}
+          <div className="onion-skin-panel__colors">
+            <label>
+              <input
+                type="color"
+                value={settings.pastColor}
+                onChange={(event) => onChange({ pastColor: event.target.value })}
+              />
+              Past
+            </label>
+            <label>
+              <input
+                type="color"
+                value={settings.futureColor}
+                onChange={(event) => onChange({ futureColor: event.target.value })}
+              />
+              Future
+            </label>
+          </div>
+          <label className="onion-skin-panel__check">
+            <input
+              type="checkbox"
+              checked={settings.outlineOnly}
+              onChange={(event) => onChange({ outlineOnly: event.target.checked })}
+            />
+            Outline only
+          </label>
+          <label className="onion-skin-panel__check">
+            <input
+              type="checkbox"
+              checked={settings.includeImages}
+              onChange={(event) => onChange({ includeImages: event.target.checked })}
+            />
+            Include image layers
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import type { ProjectSummary } from '../types'
+
+interface ProjectBrowserProps {
+  projects: ProjectSummary[]
+  activeProjectId?: string | null
+  title?: string
+  description?: string
+  onOpen: (projectId: string) => void
+  onDuplicate: (projectId: string) => void
+  onRename: (projectId: string, name: string) => void
+  onDelete: (projectId: string) => void
+  onNewProject: () => void
+  onClose: () => void
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+export function ProjectBrowser({
+  projects,
+  activeProjectId,
+  title = 'Your projects',
+  description = 'Pick up where you left off, or start something new.',
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onNewProject,
+  onClose,
+}: ProjectBrowserProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+
+  const startRename = (project: ProjectSummary) => {
+    setPendingDeleteId(null)
+    setRenamingId(project.id)
+    setDraftName(project.name)
+  }
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim())
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog project-browser">
+        <div className="project-browser__header">
+          <div>
+            <h2>{title}</h2>
+            <p>{description}</p>
+          </div>
+          <button type="button" className="project-browser__close" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="project-browser__list">
+          {projects.length === 0 && <p className="project-browser__empty">No saved projects yet.</p>}
+          {projects.map((project) => {
+            const isActive = project.id === activeProjectId
+            const isRenaming = project.id === renamingId
+            const isConfirmingDelete = project.id === pendingDeleteId
+            return (
+              <div key={project.id} className={`project-card${isActive ? ' active' : ''}`}>
+                <button
+                  type="button"
+                  className="project-card__thumb"
+                  onClick={() => onOpen(project.id)}
+                  aria-label={`Open ${project.name}`}
+                >
+                  {project.thumbnail ? (
+                    <img src={project.thumbnail} alt="" />
+                  ) : (
+                    <span className="project-card__thumb-empty">No preview</span>
+                  )}
+                </button>
+                <div className="project-card__body">
+                  {isRenaming ? (
+                    <input
+                      className="project-card__rename"
+                      value={draftName}
+                      autoFocus
+                      onChange={(event) => setDraftName(event.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') commitRename()
+                        if (event.key === 'Escape') setRenamingId(null)
+                      }}
+                    />
+                  ) : (
+                    <span className="project-card__name">
+                      {project.name}
+                      {isActive && <span className="project-card__badge">Open</span>}
+                    </span>
+                  )}
+                  <span className="project-card__meta">
+                    {project.frameCount} frame{project.frameCount !== 1 ? 's' : ''} • Updated {formatUpdatedAt(project.updatedAt)}
+                  </span>
+                  {isConfirmingDelete ? (
+                    <div className="project-card__actions">
+                      <span className="project-card__warning">Delete permanently?</span>
+                      <button type="button" className="ghost" onClick={() => setPendingDeleteId(null)}>
+                        Keep
+                      </button>
+                      <button
+                        type="button"
+                        className="danger"
+                        onClick={() => {
+                          setPendingDeleteId(null)
+                          onDelete(project.id)
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="project-card__actions">
+                      <button type="button" className="primary" onClick={() => onOpen(project.id)}>
+                        Open
+                      </button>
+                      <button type="button" className="ghost" onClick={() => onDuplicate(project.id)}>
+                        Duplicate
+                      </button>
+                      <button type="button" className="ghost" onClick={() => startRename(project)}>
+                        Rename
+                      </button>
+                      <button type="button" className="ghost" onClick={() => setPendingDeleteId(project.id)}>
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+          <button className="btn-primary" onClick={onNewProject}>
+            New project
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
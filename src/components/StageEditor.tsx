@@ -1,23 +1,69 @@
-import { Fragment, memo, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
-import { Stage, Layer, Line, Image as KonvaImage, Group } from 'react-konva'
+import { Fragment, memo, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import Konva from 'konva'
+import { Stage, Layer, Line, Image as KonvaImage, Group, Rect, Shape, Transformer } from 'react-konva'
 import useImage from 'use-image'
 import type { KonvaEventObject } from 'konva/lib/Node'
 import { v4 as uuidv4 } from 'uuid'
-import type { DrawingStroke, DrawingTool, FrameData } from '../types'
-import { adjustHexBrightness, hexToRgba } from '../utils/color'
+import type {
+  AssetId,
+  BrushDynamics,
+  DrawingLayer,
+  DrawingStroke,
+  EditorTool,
+  FillSettings,
+  FrameData,
+  LayerFill,
+  OnionSkinSettings,
+  SelectionTool,
+} from '../types'
+import { adjustHexBrightness, hexToRgb, hexToRgba } from '../utils/color'
+import type { OnionFrame } from '../utils/onionSkin'
+import { getAssetUrl } from '../utils/assets'
+import { MAX_GAP_CLOSING, findFillRegion, isPointInFill, traceFillPath } from '../utils/floodFill'
+import { renderFillReference } from '../utils/imageHelpers'
+import {
+  ROTATION_STEP,
+  ZOOM_STEP,
+  centerViewOn,
+  fitView,
+  panView,
+  rotateViewAround,
+  zoomViewAt,
+  type Point,
+  type StageView,
+} from '../utils/stageView'
+import { getPressureOpacity, getSampleWidth, readPointerSample, type StrokeSample } from '../utils/strokeDynamics'
+import { getStrokeOutline, getVariableStrokeOutline, hasVariableWidth } from '../utils/strokeOutline'
+import {
+  cloneStrokes,
+  getCornerBounds,
+  getFlipMatrix,
+  getRectPolygon,
+  getStrokesBounds,
+  pickStrokes,
+  transformStrokes,
+  type AffineMatrix,
+} from '../utils/strokeSelection'
+import { FrameRateSelect } from './FrameRateSelect'
+import { StageNavigator } from './StageNavigator'
 
-// Global image cache to prevent reloading
-const imageCache = new Map<string, HTMLImageElement>()
+// Global image cache to prevent reloading, keyed by asset id
+const imageCache = new Map<AssetId, HTMLImageElement>()
 
-// Preload images for smooth playback
-export function preloadImages(urls: string[]) {
-  urls.forEach(url => {
-    if (url && !imageCache.has(url)) {
+// Preload images for smooth playback; images outside the given set are dropped from the cache
+export function preloadImages(assetIds: AssetId[]) {
+  const live = new Set(assetIds)
+  for (const id of imageCache.keys()) {
+    if (!live.has(id)) imageCache.delete(id)
+  }
+  live.forEach(id => {
+    const url = getAssetUrl(id)
+    if (url && !imageCache.has(id)) {
       const img = new Image()
       img.crossOrigin = 'anonymous'
       img.src = url
       img.onload = () => {
-        imageCache.set(url, img)
+        imageCache.set(id, img)
       }
     }
   })
@@ -25,49 +71,91 @@ export function preloadImages(urls: string[]) {
 
 const PROTECTED_LAYER_NAME = 'layer 1'
 
+// The viewport is as wide as the panel and as tall as the frame fitted to that width, up to this scale
+const MAX_FIT_SCALE = 2.6
+
+const isSelectionTool = (tool: EditorTool): tool is SelectionTool => tool === 'lasso' || tool === 'marquee'
+
+const DEFAULT_FILL_SETTINGS: FillSettings = { referenceLayer: null, gapClosing: 3 }
+
+const IDENTITY_ATTRS = { rotation: 0, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0 }
+
+const SELECTION_COLOR = '#2e9bff'
+
+const isTextInput = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)
+}
+
+// Midpoint and spread of the first two fingers, in stage container pixels
+const getTouchGesture = ([first, second]: Point[]) => ({
+  center: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+  distance: Math.hypot(first.x - second.x, first.y - second.y) || 1,
+})
+
 const isProtectedLayer = (name?: string) => (name ?? '').trim().toLowerCase() === PROTECTED_LAYER_NAME
 
-const ImageLayerNode = memo(function ImageLayerNode({ imageUrl }: { imageUrl?: string }) {
-  const [image] = useImage(imageUrl ?? '', 'anonymous')
+const ImageLayerNode = memo(function ImageLayerNode({ assetId }: { assetId?: AssetId }) {
+  const [image] = useImage(getAssetUrl(assetId), 'anonymous')
   
   // Try cached image first for instant display
-  const cachedImage = imageUrl ? imageCache.get(imageUrl) : null
+  const cachedImage = assetId ? imageCache.get(assetId) : null
   const displayImage = cachedImage || image
   
   // Cache the image once loaded
   useEffect(() => {
-    if (image && imageUrl && !imageCache.has(imageUrl)) {
-      imageCache.set(imageUrl, image)
+    if (image && assetId && !imageCache.has(assetId)) {
+      imageCache.set(assetId, image)
     }
-  }, [image, imageUrl])
+  }, [image, assetId])
   
   if (!displayImage) return null
   return <KonvaImage image={displayImage} listening={false} />
 })
 
+const FillNode = memo(function FillNode({ fill }: { fill: LayerFill }) {
+  return (
+    <Shape
+      fill={fill.color}
+      listening={false}
+      sceneFunc={(context, shape) => {
+        context.beginPath()
+        traceFillPath(context, fill)
+        context.fillStrokeShape(shape)
+      }}
+    />
+  )
+})
+
 interface StageEditorProps {
   frame: FrameData | null
-  prevFrame?: FrameData | null
-  tool: DrawingTool
+  onionFrames?: OnionFrame[]  // Neighbouring frames to ghost, from getOnionFrames
+  tool: EditorTool
   brushColor: string
   brushSize: number
-  onionSkin: boolean
+  brushDynamics: BrushDynamics
+  onionSkin: OnionSkinSettings
   onCommitStroke: (frameId: string, layerId: string, stroke: DrawingStroke) => void
+  onEditLayer?: (frameId: string, layerId: string, label: string, edit: (layer: DrawingLayer) => DrawingLayer) => void
   onGenerateMovie?: () => void
   children?: ReactNode
   totalFrames?: number
+  fps?: number
+  onFpsChange?: (fps: number) => void
   projectName?: string
   onProjectNameChange?: (name: string) => void
   toolPanel?: ReactNode
+  historyPanel?: ReactNode
   isFullscreen?: boolean
   onToggleFullscreen?: () => void
-  onUndoStroke?: () => void
-  onRedoStroke?: () => void
+  onUndo?: () => void
+  onRedo?: () => void
   canUndo?: boolean
   canRedo?: boolean
   onAddLayer?: () => void
   onAddImage?: (scope: 'frame' | 'all') => void
   onAddVideo?: () => void
+  onImportFrames?: () => void
   onToggleLayerVisibility?: (layerId: string) => void
   onSelectLayer?: (layerId: string) => void
   onDeleteLayer?: (layerId: string, scope?: 'frame' | 'all', layerName?: string) => void
@@ -178,29 +266,178 @@ const getLineAppearance = (stroke: DrawingStroke): LineAppearance => {
   }
 }
 
+// Onion strokes in outline mode: drawn this much wider on each side, then hollowed out
+const ONION_OUTLINE_WIDTH = 1.5
+// Pixels one cached onion frame may take; zoomed-in ghosts get softer on large frames rather than
+// ten of them each holding a canvas several times the frame size
+const MAX_ONION_CACHE_PIXELS = 4_000_000
+
+interface OnionImageNodeProps {
+  assetId?: AssetId
+  tint: string
+  onReady: () => void  // Called once the tinted image is cached, so the frame can re-cache around it
+}
+
+const OnionImageNode = memo(function OnionImageNode({ assetId, tint, onReady }: OnionImageNodeProps) {
+  const [image] = useImage(getAssetUrl(assetId), 'anonymous')
+  const cachedImage = assetId ? imageCache.get(assetId) : null
+  const displayImage = cachedImage || image
+  const nodeRef = useRef<Konva.Image | null>(null)
+
+  // Konva only runs filters on cached nodes, so the cache is rebuilt for each new image
+  useEffect(() => {
+    if (!nodeRef.current) return
+    nodeRef.current.cache()
+    onReady()
+  }, [displayImage, onReady])
+
+  if (!displayImage) return null
+  const { r, g, b } = hexToRgb(tint)
+  return (
+    <KonvaImage
+      ref={nodeRef}
+      image={displayImage}
+      filters={[Konva.Filters.RGB]}
+      red={r}
+      green={g}
+      blue={b}
+      listening={false}
+    />
+  )
+})
+
+const renderOnionStroke = (
+  stroke: DrawingStroke,
+  key: string,
+  tint: string,
+  widthOffset: number,
+  compositeOperation: GlobalCompositeOperation,
+) => {
+  const { strokeWidth, tension } = getLineAppearance(stroke)
+  if (hasVariableWidth(stroke)) {
+    // The offset is added per point, so tapered ends get the same outline as the rest of the stroke
+    return (
+      <Line
+        key={key}
+        points={getStrokeOutline(
+          stroke.points,
+          stroke.widths.map((width) => Math.max(0.5, width * strokeWidth + widthOffset)),
+        )}
+        closed
+        fill={tint}
+        globalCompositeOperation={compositeOperation}
+        listening={false}
+      />
+    )
+  }
+  return (
+    <Line
+      key={key}
+      points={stroke.points}
+      stroke={tint}
+      strokeWidth={Math.max(0.5, strokeWidth + widthOffset)}
+      tension={tension}
+      lineJoin="round"
+      lineCap="round"
+      globalCompositeOperation={compositeOperation}
+      listening={false}
+    />
+  )
+}
+
+interface OnionFrameGroupProps {
+  frame: FrameData
+  tint: string
+  opacity: number
+  outlineOnly: boolean
+  includeImages: boolean
+  pixelRatio: number  // Cache resolution, so ghosts stay sharp when zoomed in
+}
+
+// Each ghosted frame is a cached group inside the shared onion layer: the cache flattens it, so
+// opacity applies to the frame as a whole, and the strokes' own cache keeps the outline cut-out
+// from eating into images, other frames or the current drawing
+const OnionFrameGroup = memo(function OnionFrameGroup({
+  frame,
+  tint,
+  opacity,
+  outlineOnly,
+  includeImages,
+  pixelRatio,
+}: OnionFrameGroupProps) {
+  const groupRef = useRef<Konva.Group | null>(null)
+  const strokesRef = useRef<Konva.Group | null>(null)
+  const visibleLayers = frame.layers.filter((layer) => layer.visible)
+  const imageLayers = includeImages ? visibleLayers.filter((layer) => layer.imageId) : []
+  const strokes = visibleLayers
+    .filter((layer) => !layer.imageId)
+    .flatMap((layer) =>
+      layer.strokes
+        .filter((stroke) => stroke.mode !== 'eraser')
+        .map((stroke, index) => ({ stroke, key: `${layer.id}-${stroke.id}-${index}` })),
+    )
+
+  const refreshCache = useCallback(() => {
+    const bounds = { x: 0, y: 0, width: frame.width, height: frame.height, pixelRatio }
+    // Only the outline cut-out needs the strokes flattened on their own
+    strokesRef.current?.clearCache()
+    if (outlineOnly) strokesRef.current?.cache(bounds)
+    groupRef.current?.clearCache().cache(bounds)
+    groupRef.current?.getLayer()?.batchDraw()
+  }, [frame.width, frame.height, pixelRatio, outlineOnly])
+
+  useLayoutEffect(() => {
+    refreshCache()
+  }, [refreshCache, frame, tint, includeImages])
+
+  if (!imageLayers.length && !strokes.length) return null
+  return (
+    <Group ref={groupRef} opacity={opacity} listening={false}>
+      {imageLayers.map((layer) => (
+        <OnionImageNode key={layer.id} assetId={layer.imageId} tint={tint} onReady={refreshCache} />
+      ))}
+      {strokes.length > 0 && (
+        <Group ref={strokesRef}>
+          {strokes.map(({ stroke, key }) =>
+            renderOnionStroke(stroke, `${key}-tint`, tint, outlineOnly ? ONION_OUTLINE_WIDTH * 2 : 0, 'source-over'),
+          )}
+          {outlineOnly &&
+            strokes.map(({ stroke, key }) => renderOnionStroke(stroke, `${key}-hollow`, tint, 0, 'destination-out'))}
+        </Group>
+      )}
+    </Group>
+  )
+})
+
 export function StageEditor({
   frame,
-  prevFrame,
+  onionFrames = [],
   tool,
   brushColor,
   brushSize,
+  brushDynamics,
   onionSkin,
   onCommitStroke,
+  onEditLayer,
   onGenerateMovie,
   children,
   totalFrames = 0,
+  fps,
+  onFpsChange,
   projectName = 'Untitled project',
   onProjectNameChange,
   toolPanel,
+  historyPanel,
   isFullscreen = false,
   onToggleFullscreen,
-  onUndoStroke,
-  onRedoStroke,
+  onUndo,
+  onRedo,
   canUndo = false,
   canRedo = false,
   onAddLayer,
   onAddImage,
   onAddVideo,
+  onImportFrames,
   onToggleLayerVisibility,
   onSelectLayer,
   onDeleteLayer,
@@ -210,7 +447,26 @@ export function StageEditor({
   const draftStrokeRef = useRef<DrawingStroke | null>(null)
   const [isDrawing, setIsDrawing] = useState(false)
   const [cursorPosition, setCursorPosition] = useState<{ x: number; y: number } | null>(null)
-  const [scale, setScale] = useState(1.4)
+  const [viewportWidth, setViewportWidth] = useState(1008)
+  // Null while the frame is fitted to the viewport; keyed by frame size so a new size fits again
+  const [customView, setCustomView] = useState<{ sizeKey: string; view: StageView } | null>(null)
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false)
+  const [isPanning, setIsPanning] = useState(false)
+  const panRef = useRef<{ pointer: Point; view: StageView } | null>(null)
+  const pinchRef = useRef<{ center: Point; distance: number; view: StageView } | null>(null)
+  const touchesRef = useRef(new Map<number, Point>())
+  // Selected stroke ids, only meaningful while that frame and layer are active and a selection tool is on
+  const [selection, setSelection] = useState<{ frameId: string; layerId: string; ids: string[] } | null>(null)
+  const [selectionPath, setSelectionPath] = useState<number[] | null>(null)
+  const selectionPathRef = useRef<number[] | null>(null)
+  const selectionStartRef = useRef<{ point: Point; additive: boolean } | null>(null)
+  const [strokeClipboard, setStrokeClipboard] = useState<DrawingStroke[]>([])
+  const selectionGroupRef = useRef<Konva.Group | null>(null)
+  const selectionBoxRef = useRef<Konva.Rect | null>(null)
+  const transformerRef = useRef<Konva.Transformer | null>(null)
+  const samplesRef = useRef<StrokeSample[]>([])
+  const [fillSettings, setFillSettings] = useState<FillSettings>(DEFAULT_FILL_SETTINGS)
+  const [isFilling, setIsFilling] = useState(false)
   const stageContainerRef = useRef<HTMLDivElement | null>(null)
   const menuRef = useRef<HTMLDivElement | null>(null)
   const layerPanelRef = useRef<HTMLDivElement | null>(null)
@@ -221,40 +477,147 @@ export function StageEditor({
   const [deleteScope, setDeleteScope] = useState<'frame' | 'all'>('frame')
   const [layersToDelete, setLayersToDelete] = useState<Set<string>>(new Set())
 
-  const [baseImage] = useImage(frame?.imageUrl ?? '', 'anonymous')
-  const [outlineImage] = useImage(frame?.outlineUrl ?? '', 'anonymous')
+  const [baseImage] = useImage(getAssetUrl(frame?.imageId), 'anonymous')
+  const [outlineImage] = useImage(getAssetUrl(frame?.outlineId), 'anonymous')
 
   const baseWidth = frame?.width ?? 720
   const baseHeight = frame?.height ?? 405
-  const stageWidth = Math.round(baseWidth * scale)
-  const stageHeight = Math.round(baseHeight * scale)
+  const stageWidth = viewportWidth
+  const stageHeight = Math.round(baseHeight * Math.min(MAX_FIT_SCALE, viewportWidth / baseWidth))
+  const sizeKey = `${baseWidth}x${baseHeight}`
+  const fittedView = useMemo(
+    () => fitView({ width: stageWidth, height: stageHeight }, { width: baseWidth, height: baseHeight }),
+    [stageWidth, stageHeight, baseWidth, baseHeight],
+  )
+  const view = customView?.sizeKey === sizeKey ? customView.view : fittedView
+  const isFitted = view === fittedView
+  const viewRef = useRef(view)
+  viewRef.current = view
 
   useEffect(() => {
-    const updateScale = () => {
+    const updateViewport = () => {
       const containerWidth = stageContainerRef.current?.clientWidth
       if (!containerWidth) return
-      const nextScale = Math.min(2.6, Math.max(1.2, containerWidth / baseWidth))
-      setScale(nextScale)
+      setViewportWidth(containerWidth)
     }
 
-    updateScale()
+    updateViewport()
 
     if (typeof ResizeObserver !== 'undefined' && stageContainerRef.current) {
-      const resizeObserver = new ResizeObserver(() => updateScale())
+      const resizeObserver = new ResizeObserver(() => updateViewport())
       resizeObserver.observe(stageContainerRef.current)
       return () => resizeObserver.disconnect()
     }
 
     if (typeof window !== 'undefined') {
-      window.addEventListener('resize', updateScale)
-      return () => window.removeEventListener('resize', updateScale)
+      window.addEventListener('resize', updateViewport)
+      return () => window.removeEventListener('resize', updateViewport)
     }
 
     return undefined
   }, [baseWidth])
 
+  const updateView = useCallback(
+    (update: (current: StageView) => StageView) => {
+      setCustomView({ sizeKey, view: update(viewRef.current) })
+    },
+    [sizeKey],
+  )
+
+  const viewportCenter = useMemo(() => ({ x: stageWidth / 2, y: stageHeight / 2 }), [stageWidth, stageHeight])
+
+  const zoomBy = useCallback(
+    (factor: number, anchor: Point = viewportCenter) =>
+      updateView((current) => zoomViewAt(current, anchor, current.scale * factor)),
+    [updateView, viewportCenter],
+  )
+
+  const zoomToActualSize = useCallback(
+    () => updateView((current) => zoomViewAt(current, viewportCenter, 1)),
+    [updateView, viewportCenter],
+  )
+
+  const rotateBy = useCallback(
+    (degrees: number) => updateView((current) => rotateViewAround(current, viewportCenter, degrees)),
+    [updateView, viewportCenter],
+  )
+
+  const resetRotation = useCallback(
+    () => updateView((current) => rotateViewAround(current, viewportCenter, -current.rotation)),
+    [updateView, viewportCenter],
+  )
+
+  const fitToViewport = useCallback(() => setCustomView(null), [])
+
+  const centerOnFramePoint = useCallback(
+    (framePoint: Point) =>
+      updateView((current) => centerViewOn(current, { width: stageWidth, height: stageHeight }, framePoint)),
+    [updateView, stageWidth, stageHeight],
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Only while the pointer is over the canvas, so space still presses buttons and Ctrl+0 still
+      // resets the browser zoom everywhere else
+      if (isTextInput(event.target) || !stageContainerRef.current?.matches(':hover')) return
+      if (event.code === 'Space' && !event.ctrlKey && !event.metaKey) {
+        // Keeps the page from scrolling and focused buttons from firing while space-dragging
+        event.preventDefault()
+        setIsSpaceHeld(true)
+        return
+      }
+      if (event.altKey) return
+      if (event.ctrlKey || event.metaKey) {
+        if (event.key === '0') fitToViewport()
+        else if (event.key === '1') zoomToActualSize()
+        else if (event.key === '=' || event.key === '+') zoomBy(ZOOM_STEP)
+        else if (event.key === '-') zoomBy(1 / ZOOM_STEP)
+        else return
+        event.preventDefault()
+      } else if (event.key.toLowerCase() === 'r') {
+        rotateBy(event.shiftKey ? -ROTATION_STEP : ROTATION_STEP)
+      }
+    }
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpaceHeld(false)
+    }
+    const handleBlur = () => setIsSpaceHeld(false)
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleBlur)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
+    }
+  }, [fitToViewport, zoomToActualSize, zoomBy, rotateBy])
+
+  const handleWheel = useCallback(
+    (event: KonvaEventObject<WheelEvent>) => {
+      event.evt.preventDefault()
+      const pointer = event.target.getStage()?.getPointerPosition()
+      if (!pointer) return
+      // Trackpad pinches arrive as ctrl+wheel with much smaller deltas than a mouse wheel notch
+      const sensitivity = event.evt.ctrlKey ? 0.01 : 0.002
+      zoomBy(Math.exp(-event.evt.deltaY * sensitivity), pointer)
+    },
+    [zoomBy],
+  )
+
+  const isSelecting = isSelectionTool(tool)
+  const isFillTool = tool === 'fill'
+  const activeLayer = frame?.layers.find((layer) => layer.id === frame.activeLayerId)
+  const selectedStrokes = useMemo(() => {
+    if (!isSelecting || !frame || !activeLayer?.visible) return []
+    if (selection?.frameId !== frame.id || selection.layerId !== activeLayer.id) return []
+    const ids = new Set(selection.ids)
+    return activeLayer.strokes.filter((stroke) => ids.has(stroke.id))
+  }, [isSelecting, frame, activeLayer, selection])
+  const selectedIds = useMemo(() => new Set(selectedStrokes.map((stroke) => stroke.id)), [selectedStrokes])
+  const selectionBounds = useMemo(() => getStrokesBounds(selectedStrokes), [selectedStrokes])
+
   const updatePointerPosition = useCallback(
-    (event: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    (event: KonvaEventObject<PointerEvent>) => {
       const stage = event.target.getStage()
       const pointer = stage?.getPointerPosition()
       if (!pointer) {
@@ -267,13 +630,94 @@ export function StageEditor({
     [],
   )
 
+  const cancelDraftStroke = useCallback(() => {
+    draftStrokeRef.current = null
+    samplesRef.current = []
+    setDraftStroke(null)
+    setIsDrawing(false)
+  }, [])
+
+  const trackTouch = useCallback((event: KonvaEventObject<PointerEvent>) => {
+    const stage = event.target.getStage()
+    if (!stage || event.evt.pointerType !== 'touch') return
+    const rect = stage.container().getBoundingClientRect()
+    touchesRef.current.set(event.evt.pointerId, { x: event.evt.clientX - rect.left, y: event.evt.clientY - rect.top })
+  }, [])
+
+  const releaseTouch = useCallback((event: KonvaEventObject<PointerEvent>) => {
+    touchesRef.current.delete(event.evt.pointerId)
+    if (touchesRef.current.size < 2) pinchRef.current = null
+  }, [])
+
+  // Clicking inside a fill on the active layer recolours it (Shift removes it); anywhere else
+  // floods the enclosed region of the reference line art into a new fill
+  const applyFill = useCallback(
+    (point: Point, remove: boolean) => {
+      if (!frame || !onEditLayer || !activeLayer || isFilling) return
+      const hit = [...(activeLayer.fills ?? [])].reverse().find((fill) => isPointInFill(fill, point.x, point.y))
+      if (hit) {
+        onEditLayer(frame.id, activeLayer.id, remove ? 'Remove fill' : 'Recolor fill', (layer) => ({
+          ...layer,
+          fills: remove
+            ? layer.fills?.filter((fill) => fill.id !== hit.id)
+            : layer.fills?.map((fill) => (fill.id === hit.id ? { ...fill, color: brushColor } : fill)),
+        }))
+        return
+      }
+      if (remove) return
+      const seed = { x: Math.floor(point.x), y: Math.floor(point.y) }
+      setIsFilling(true)
+      renderFillReference(frame, fillSettings.referenceLayer)
+        .then((reference) => {
+          const runs = findFillRegion(reference, seed.x, seed.y, fillSettings.gapClosing)
+          if (!runs?.length) return
+          const fill: LayerFill = { id: uuidv4(), color: brushColor, runs, seed }
+          onEditLayer(frame.id, activeLayer.id, 'Fill', (layer) => ({ ...layer, fills: [...(layer.fills ?? []), fill] }))
+        })
+        .catch((error) => console.error('Failed to fill region', error))
+        .finally(() => setIsFilling(false))
+    },
+    [frame, onEditLayer, activeLayer, isFilling, brushColor, fillSettings],
+  )
+
   const handlePointerDown = useCallback(
-    (event: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    (event: KonvaEventObject<PointerEvent>) => {
       if (!frame) return
+      const stage = event.target.getStage()
+      trackTouch(event)
+      if (touchesRef.current.size >= 2) {
+        // A second finger turns the gesture into pinch zoom and pan; the first finger's stroke is dropped
+        cancelDraftStroke()
+        pinchRef.current = { ...getTouchGesture([...touchesRef.current.values()]), view: viewRef.current }
+        return
+      }
       const pointer = updatePointerPosition(event)
       if (!pointer) return
-      const x = pointer.x / scale
-      const y = pointer.y / scale
+      if (isSpaceHeld || event.evt.button === 1) {
+        event.evt.preventDefault()
+        panRef.current = { pointer, view: viewRef.current }
+        setIsPanning(true)
+        return
+      }
+      // Frame coordinates, whatever the zoom, pan and rotation
+      const framePoint = stage?.getRelativePointerPosition()
+      if (!framePoint) return
+      const { x, y } = framePoint
+      if (isSelectionTool(tool)) {
+        // Presses on the selection box or transformer handles are theirs to handle
+        if (event.target !== stage) return
+        const path = tool === 'lasso' ? [x, y] : getRectPolygon({ x, y, width: 0, height: 0 })
+        selectionStartRef.current = { point: framePoint, additive: event.evt.shiftKey }
+        selectionPathRef.current = path
+        setSelectionPath(path)
+        return
+      }
+      if (tool === 'fill') {
+        applyFill(framePoint, event.evt.shiftKey)
+        return
+      }
+      const sample = readPointerSample(event.evt, x, y)
+      samplesRef.current = [sample]
       setIsDrawing(true)
       const nextStroke: DrawingStroke = {
         id: uuidv4(),
@@ -281,41 +725,107 @@ export function StageEditor({
         color: brushColor,
         size: brushSize,
         mode: tool,
+        ...(brushDynamics.width ? { widths: [getSampleWidth(sample)] } : {}),
       }
       draftStrokeRef.current = nextStroke
       setDraftStroke(nextStroke)
     },
-    [frame, brushColor, brushSize, tool, scale, updatePointerPosition],
+    [
+      frame,
+      brushColor,
+      brushSize,
+      tool,
+      brushDynamics,
+      isSpaceHeld,
+      updatePointerPosition,
+      cancelDraftStroke,
+      trackTouch,
+      applyFill,
+    ],
   )
 
   const handlePointerMove = useCallback(
-    (event: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    (event: KonvaEventObject<PointerEvent>) => {
+      const stage = event.target.getStage()
+      const pinch = pinchRef.current
+      if (touchesRef.current.has(event.evt.pointerId)) trackTouch(event)
+      if (pinch && touchesRef.current.size >= 2) {
+        const { center, distance } = getTouchGesture([...touchesRef.current.values()])
+        const zoomed = zoomViewAt(pinch.view, pinch.center, (pinch.view.scale * distance) / pinch.distance)
+        setCustomView({ sizeKey, view: panView(zoomed, center.x - pinch.center.x, center.y - pinch.center.y) })
+        return
+      }
       const pointer = updatePointerPosition(event)
       if (!pointer) return
+      const pan = panRef.current
+      if (pan) {
+        setCustomView({ sizeKey, view: panView(pan.view, pointer.x - pan.pointer.x, pointer.y - pan.pointer.y) })
+        return
+      }
+      const selectionStart = selectionStartRef.current
+      if (selectionStart) {
+        const framePoint = stage?.getRelativePointerPosition()
+        const path = selectionPathRef.current
+        if (!framePoint || !path) return
+        const nextPath =
+          tool === 'lasso'
+            ? [...path, framePoint.x, framePoint.y]
+            : getRectPolygon(getCornerBounds(selectionStart.point, framePoint))
+        selectionPathRef.current = nextPath
+        setSelectionPath(nextPath)
+        return
+      }
       if (!isDrawing) return
-      if (!pointer) return
-      const x = pointer.x / scale
-      const y = pointer.y / scale
+      const framePoint = stage?.getRelativePointerPosition()
+      if (!framePoint) return
+      const { x, y } = framePoint
+      const samples = samplesRef.current
+      const previous = samples[samples.length - 1]
+      const sample = readPointerSample(event.evt, x, y)
+      samples.push(sample)
       setDraftStroke((current) => {
         if (!current) return current
         const updatedStroke = {
           ...current,
           points: [...current.points, x, y],
+          ...(current.widths
+            ? { widths: [...current.widths, getSampleWidth(sample, previous, current.widths[current.widths.length - 1])] }
+            : {}),
         }
         draftStrokeRef.current = updatedStroke
         return updatedStroke
       })
     },
-    [isDrawing, scale, updatePointerPosition],
+    [isDrawing, sizeKey, tool, updatePointerPosition, trackTouch],
   )
 
+  const completeSelection = useCallback(() => {
+    const start = selectionStartRef.current
+    const path = selectionPathRef.current
+    selectionStartRef.current = null
+    selectionPathRef.current = null
+    setSelectionPath(null)
+    if (!start || !path || !frame || !activeLayer) return
+    const picked = activeLayer.visible ? pickStrokes(activeLayer.strokes, path) : []
+    const ids = start.additive ? [...new Set([...selectedIds, ...picked])] : picked
+    setSelection({ frameId: frame.id, layerId: activeLayer.id, ids })
+  }, [frame, activeLayer, selectedIds])
+
   const finishStroke = useCallback(() => {
+    pinchRef.current = null
+    panRef.current = null
+    setIsPanning(false)
+    if (selectionStartRef.current) completeSelection()
     if (!frame) return
     setIsDrawing(false)
-    const stroke = draftStrokeRef.current
+    const draft = draftStrokeRef.current
+    const samples = samplesRef.current
     draftStrokeRef.current = null
+    samplesRef.current = []
     setDraftStroke(null)
-    if (stroke && stroke.points.length > 2) {
+    if (draft && draft.points.length > 2) {
+      const opacity = brushDynamics.opacity ? getPressureOpacity(samples) : undefined
+      const stroke = opacity === undefined ? draft : { ...draft, opacity }
       const commit = () => onCommitStroke(frame.id, frame.activeLayerId, stroke)
       if (typeof window !== 'undefined' && 'requestAnimationFrame' in window) {
         window.requestAnimationFrame(commit)
@@ -323,12 +833,131 @@ export function StageEditor({
         setTimeout(commit, 0)
       }
     }
-  }, [frame, onCommitStroke])
+  }, [frame, brushDynamics, onCommitStroke, completeSelection])
+
+  // The selection box and the strokes it carries start each edit untransformed; committed edits
+  // arrive as new stroke points, so both go back to identity whenever the selected strokes change
+  useLayoutEffect(() => {
+    selectionGroupRef.current?.setAttrs({ x: 0, y: 0, ...IDENTITY_ATTRS })
+    if (selectionBounds) {
+      selectionBoxRef.current?.setAttrs({ x: selectionBounds.x, y: selectionBounds.y, ...IDENTITY_ATTRS })
+    }
+    transformerRef.current?.nodes(selectionBoxRef.current && selectionBounds ? [selectionBoxRef.current] : [])
+    transformerRef.current?.getLayer()?.batchDraw()
+  }, [selectionBounds])
+
+  const editSelectedStrokes = useCallback(
+    (label: string, edit: (strokes: DrawingStroke[]) => DrawingStroke[]) => {
+      if (!frame || !onEditLayer || !selectedStrokes.length) return
+      onEditLayer(frame.id, frame.activeLayerId, label, (layer) => ({ ...layer, strokes: edit(layer.strokes) }))
+    },
+    [frame, onEditLayer, selectedStrokes],
+  )
+
+  const applySelectionMatrix = useCallback(
+    (label: string, matrix: AffineMatrix) => {
+      const moved = new Map(transformStrokes(selectedStrokes, matrix).map((stroke) => [stroke.id, stroke]))
+      editSelectedStrokes(label, (current) => current.map((stroke) => moved.get(stroke.id) ?? stroke))
+    },
+    [selectedStrokes, editSelectedStrokes],
+  )
+
+  // How far the selection box has been moved, scaled or rotated since the edit started
+  const getSelectionDelta = useCallback(() => {
+    const box = selectionBoxRef.current
+    if (!box || !selectionBounds) return null
+    return box.getTransform().copy().multiply(new Konva.Transform().translate(-selectionBounds.x, -selectionBounds.y))
+  }, [selectionBounds])
+
+  const previewSelectionTransform = useCallback(() => {
+    const delta = getSelectionDelta()
+    if (delta) selectionGroupRef.current?.setAttrs(delta.decompose())
+  }, [getSelectionDelta])
+
+  const commitSelectionTransform = useCallback(
+    (label: string) => {
+      const delta = getSelectionDelta()
+      if (delta) applySelectionMatrix(label, delta.getMatrix() as AffineMatrix)
+    },
+    [getSelectionDelta, applySelectionMatrix],
+  )
+
+  const flipSelection = useCallback(
+    (axis: 'horizontal' | 'vertical') => {
+      if (selectionBounds) applySelectionMatrix('Flip selection', getFlipMatrix(selectionBounds, axis))
+    },
+    [selectionBounds, applySelectionMatrix],
+  )
+
+  const deleteSelection = useCallback(
+    (label = 'Delete selection') => {
+      editSelectedStrokes(label, (current) => current.filter((stroke) => !selectedIds.has(stroke.id)))
+      setSelection(null)
+    },
+    [editSelectedStrokes, selectedIds],
+  )
+
+  const copySelection = useCallback(() => {
+    if (selectedStrokes.length) setStrokeClipboard(selectedStrokes)
+  }, [selectedStrokes])
+
+  const cutSelection = useCallback(() => {
+    copySelection()
+    deleteSelection('Cut selection')
+  }, [copySelection, deleteSelection])
+
+  // Pastes onto the active layer of whatever frame is showing, in the same place it was copied from
+  const pasteStrokes = useCallback(() => {
+    if (!frame || !onEditLayer || !strokeClipboard.length) return
+    const pasted = cloneStrokes(strokeClipboard)
+    onEditLayer(frame.id, frame.activeLayerId, 'Paste strokes', (layer) => ({
+      ...layer,
+      strokes: [...layer.strokes, ...pasted],
+    }))
+    setSelection({ frameId: frame.id, layerId: frame.activeLayerId, ids: pasted.map((stroke) => stroke.id) })
+  }, [frame, onEditLayer, strokeClipboard])
+
+  const selectAllStrokes = useCallback(() => {
+    if (!frame || !activeLayer?.visible) return
+    setSelection({ frameId: frame.id, layerId: activeLayer.id, ids: activeLayer.strokes.map((stroke) => stroke.id) })
+  }, [frame, activeLayer])
+
+  useEffect(() => {
+    if (!isSelecting) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextInput(event.target) || !stageContainerRef.current?.matches(':hover')) return
+      const key = event.key.toLowerCase()
+      const withModifier = (event.ctrlKey || event.metaKey) && !event.altKey && !event.shiftKey
+      if (key === 'escape') setSelection(null)
+      else if (key === 'delete' || key === 'backspace') deleteSelection()
+      else if (withModifier && key === 'c') copySelection()
+      else if (withModifier && key === 'x') cutSelection()
+      else if (withModifier && key === 'v') pasteStrokes()
+      else if (withModifier && key === 'a') selectAllStrokes()
+      else return
+      // Captured before the timeline's own clipboard shortcuts, which act on frames
+      event.preventDefault()
+      event.stopPropagation()
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [isSelecting, deleteSelection, copySelection, cutSelection, pasteStrokes, selectAllStrokes])
+
+  const handlePointerUp = useCallback(
+    (event: KonvaEventObject<PointerEvent>) => {
+      releaseTouch(event)
+      finishStroke()
+    },
+    [releaseTouch, finishStroke],
+  )
 
-  const handlePointerLeave = useCallback(() => {
-    setCursorPosition(null)
-    finishStroke()
-  }, [finishStroke])
+  const handlePointerLeave = useCallback(
+    (event: KonvaEventObject<PointerEvent>) => {
+      setCursorPosition(null)
+      handlePointerUp(event)
+    },
+    [handlePointerUp],
+  )
 
   const strokes = useMemo(() => {
     let index = 0
@@ -338,12 +967,21 @@ export function StageEditor({
         .flatMap((layer) =>
           layer.strokes.map((stroke) => ({
             ...stroke,
+            layerId: layer.id,
             uniqueKey: `${layer.id}-${stroke.id}-${index++}`,
           })),
         ) ?? []
     )
   }, [frame])
 
+  // Whole steps, so zooming re-caches the onion frames only now and then
+  const onionPixelRatio = Math.min(
+    Math.max(1, Math.ceil(view.scale * (typeof window !== 'undefined' ? window.devicePixelRatio : 1))),
+    Math.sqrt(MAX_ONION_CACHE_PIXELS / (baseWidth * baseHeight)),
+  )
+
+  const hasFills = !!frame?.layers.some((layer) => layer.visible && layer.fills?.length)
+
   const renderStrokeLine = useCallback(
     (stroke: DrawingStroke, key?: string) => {
       const appearance = getLineAppearance(stroke)
@@ -354,6 +992,49 @@ export function StageEditor({
           const normalized = (noise - Math.floor(noise)) - 0.5
           return value + normalized * amplitude
         })
+      const opacity = (appearance.opacity ?? 1) * (stroke.opacity ?? 1)
+
+      // Pressure strokes are filled outlines, so the width can change along the line
+      if (hasVariableWidth(stroke)) {
+        if (stroke.mode === 'pencil') {
+          const texturedOverlays = [0, 1, 2].map((seed) => (
+            <Line
+              key={`${key ?? stroke.id}-overlay-${seed}`}
+              points={getVariableStrokeOutline(
+                stroke,
+                Math.max(1, appearance.strokeWidth * 0.6),
+                jitteredPoints(seed, appearance.strokeWidth * 0.6),
+              )}
+              closed
+              fill={hexToRgba(stroke.color, 0.35)}
+              globalCompositeOperation="multiply"
+              listening={false}
+              opacity={0.35 * (stroke.opacity ?? 1)}
+            />
+          ))
+          return <Fragment key={key ?? stroke.id}>{texturedOverlays}</Fragment>
+        }
+        const fillGradientProps = appearance.gradient
+          ? {
+              fillLinearGradientStartPoint: appearance.gradient.start,
+              fillLinearGradientEndPoint: appearance.gradient.end,
+              fillLinearGradientColorStops: appearance.gradient.stops,
+            }
+          : {}
+        return (
+          <Line
+            key={`${key ?? stroke.id}-primary`}
+            points={getVariableStrokeOutline(stroke, appearance.strokeWidth)}
+            closed
+            fill={appearance.strokeColor}
+            globalCompositeOperation={appearance.globalCompositeOperation}
+            listening={false}
+            opacity={opacity}
+            {...fillGradientProps}
+          />
+        )
+      }
+
       const gradientProps = appearance.gradient
         ? {
             strokeLinearGradientStartPoint: appearance.gradient.start,
@@ -372,7 +1053,7 @@ export function StageEditor({
           globalCompositeOperation={appearance.globalCompositeOperation}
           tension={appearance.tension}
           listening={false}
-          opacity={appearance.opacity}
+          opacity={opacity}
           dash={appearance.dash}
           {...gradientProps}
         />
@@ -393,7 +1074,7 @@ export function StageEditor({
           globalCompositeOperation="multiply"
           tension={appearance.tension + 0.15}
           listening={false}
-          opacity={0.35}
+          opacity={0.35 * (stroke.opacity ?? 1)}
           dash={[2, appearance.strokeWidth * (1.2 + seed * 0.4)]}
         />
       ))
@@ -410,7 +1091,7 @@ export function StageEditor({
         <p>
           Drag a reference video here or start with a blank canvas to kick off your rotoscope. This workspace is built for
           browser-first animation: auto-trace silhouettes with TensorFlow.js, clean them up with layered brushes, and keep
-          everything organized in a 12&nbsp;FPS timeline that behaves like classic flipbooks. When you’re ready, export the
+          everything organized in a frame-rate-aware timeline that behaves like classic flipbooks. When you’re ready, export the
           sequence as a movie without leaving the tab.
         </p>
         <ul className="placeholder-highlights">
@@ -423,14 +1104,14 @@ export function StageEditor({
   }
 
   const handleUndoClick = useCallback(() => {
-    if (!canUndo || !onUndoStroke) return
-    onUndoStroke()
-  }, [canUndo, onUndoStroke])
+    if (!canUndo || !onUndo) return
+    onUndo()
+  }, [canUndo, onUndo])
 
   const handleRedoClick = useCallback(() => {
-    if (!canRedo || !onRedoStroke) return
-    onRedoStroke()
-  }, [canRedo, onRedoStroke])
+    if (!canRedo || !onRedo) return
+    onRedo()
+  }, [canRedo, onRedo])
 
   const toggleMenu = useCallback(() => {
     setIsMenuOpen((value) => !value)
@@ -569,13 +1250,21 @@ export function StageEditor({
               <line x1="12" y1="15" x2="12" y2="3"></line>
             </svg>
           </button>
+          {fps && onFpsChange && (
+            <FrameRateSelect value={fps} onChange={onFpsChange} className="frame-rate-select--compact" />
+          )}
           <span className="frame-count">{totalFrames} frames</span>
         </div>
       </div>
       <div className="stage-canvas">
         <div
           ref={stageContainerRef}
-          className="stage-canvas-inner"
+          className={[
+            'stage-canvas-inner',
+            isSpaceHeld || isPanning ? 'stage-canvas-inner--panning' : '',
+            isSelecting ? 'stage-canvas-inner--selecting' : '',
+            isFillTool ? 'stage-canvas-inner--filling' : '',
+          ].filter(Boolean).join(' ')}
           style={{ width: '100%', height: stageHeight }}
         >
           <div className="stage-toolbar">
@@ -584,6 +1273,7 @@ export function StageEditor({
               className="stage-toolbar__btn"
               onClick={handleUndoClick}
               disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
             >
               ↺
             </button>
@@ -592,9 +1282,11 @@ export function StageEditor({
               className="stage-toolbar__btn"
               onClick={handleRedoClick}
               disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
             >
               ↻
             </button>
+            {historyPanel}
           </div>
           <div className="stage-menu" ref={menuRef}>
             <button
@@ -627,6 +1319,13 @@ export function StageEditor({
                 >
                   Add video
                 </button>
+                <button
+                  type="button"
+                  className="stage-menu__item"
+                  onClick={() => handleMenuAction(onImportFrames)}
+                >
+                  Import image sequence / GIF
+                </button>
                 <button
                   type="button"
                   className="stage-menu__item"
@@ -664,15 +1363,17 @@ export function StageEditor({
             className="drawing-stage"
             width={stageWidth}
             height={stageHeight}
-            scaleX={scale}
-            scaleY={scale}
-            onMouseDown={handlePointerDown}
-            onMouseMove={handlePointerMove}
-            onMouseUp={finishStroke}
-            onMouseLeave={handlePointerLeave}
-            onTouchStart={handlePointerDown}
-            onTouchMove={handlePointerMove}
-            onTouchEnd={handlePointerLeave}
+            scaleX={view.scale}
+            scaleY={view.scale}
+            x={view.x}
+            y={view.y}
+            rotation={view.rotation}
+            onWheel={handleWheel}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerLeave}
+            onPointerLeave={handlePointerLeave}
           >
             {/* Always show base image (background) if it exists */}
             {baseImage && (
@@ -686,35 +1387,91 @@ export function StageEditor({
               </Layer>
             )}
             {frame.layers
-              .filter((layer) => layer.visible && layer.imageUrl)
+              .filter((layer) => layer.visible && layer.imageId)
               .map((layer) => (
                 <Layer key={`${layer.id}-image`} listening={false}>
-                  <ImageLayerNode imageUrl={layer.imageUrl} />
+                  <ImageLayerNode assetId={layer.imageId} />
                 </Layer>
               ))}
-            {(strokes.length > 0 || draftStroke) && (
+            {(strokes.length > 0 || hasFills || draftStroke) && (
               <Layer listening={false}>
-                {strokes.map((stroke) => renderStrokeLine(stroke, stroke.uniqueKey))}
+                {/* Each layer's fills go right under its own strokes */}
+                {frame.layers
+                  .filter((layer) => layer.visible)
+                  .map((layer) => (
+                    <Fragment key={layer.id}>
+                      {layer.fills?.map((fill) => <FillNode key={fill.id} fill={fill} />)}
+                      {strokes
+                        .filter(
+                          (stroke) =>
+                            stroke.layerId === layer.id && (layer.id !== frame.activeLayerId || !selectedIds.has(stroke.id)),
+                        )
+                        .map((stroke) => renderStrokeLine(stroke, stroke.uniqueKey))}
+                    </Fragment>
+                  ))}
+                {selectedStrokes.length > 0 && (
+                  <Group ref={selectionGroupRef} listening={false}>
+                    {selectedStrokes.map((stroke) => renderStrokeLine(stroke, `selected-${stroke.id}`))}
+                  </Group>
+                )}
                 {draftStroke ? renderStrokeLine(draftStroke, 'draft-stroke') : null}
               </Layer>
             )}
-            {/* Onion skin layer - show previous frame drawing strokes only (no image/auto-trace layers) */}
-            {onionSkin && prevFrame && (
-              <Layer opacity={0.4} listening={false}>
-                {prevFrame.layers
-                  .filter((layer) => layer.visible && !layer.imageUrl)
-                  .flatMap((layer, layerIndex) =>
-                    layer.strokes
-                      .filter((stroke) => stroke.mode !== 'eraser')
-                      .map((stroke, strokeIndex) => {
-                        const key = `onion-stroke-${layer.id}-${layerIndex}-${stroke.id}-${strokeIndex}`
-                        return (
-                          <Group key={key} listening={false}>
-                            {renderStrokeLine(stroke, key)}
-                          </Group>
-                        )
-                      }),
-                  )}
+            {isSelecting && (selectionPath || selectionBounds) && (
+              <Layer>
+                {selectionPath && (
+                  <Line
+                    points={selectionPath}
+                    closed
+                    stroke={SELECTION_COLOR}
+                    strokeWidth={1 / view.scale}
+                    dash={[6 / view.scale, 4 / view.scale]}
+                    fill="rgba(46, 155, 255, 0.08)"
+                    listening={false}
+                  />
+                )}
+                {selectionBounds && (
+                  <>
+                    <Rect
+                      ref={selectionBoxRef}
+                      x={selectionBounds.x}
+                      y={selectionBounds.y}
+                      width={selectionBounds.width}
+                      height={selectionBounds.height}
+                      fill="rgba(46, 155, 255, 0.06)"
+                      draggable
+                      onDragMove={previewSelectionTransform}
+                      onDragEnd={() => commitSelectionTransform('Move selection')}
+                      onTransform={previewSelectionTransform}
+                      onTransformEnd={() => commitSelectionTransform('Transform selection')}
+                    />
+                    <Transformer
+                      ref={transformerRef}
+                      flipEnabled
+                      keepRatio={false}
+                      rotationSnaps={[0, 45, 90, 135, 180, 225, 270, 315]}
+                      borderStroke={SELECTION_COLOR}
+                      anchorStroke={SELECTION_COLOR}
+                      anchorSize={9}
+                    />
+                  </>
+                )}
+              </Layer>
+            )}
+            {/* Onion skin - neighbouring frames tinted past/future, drawn over the current frame */}
+            {onionFrames.length > 0 && (
+              <Layer listening={false}>
+                {onionFrames.map(({ frame: onionFrame, offset, tint, opacity }) => (
+                  <OnionFrameGroup
+                    key={`onion-${offset}-${onionFrame.id}`}
+                    frame={onionFrame}
+                    tint={tint}
+                    opacity={opacity}
+                    outlineOnly={onionSkin.outlineOnly}
+                    includeImages={onionSkin.includeImages}
+                    pixelRatio={onionPixelRatio}
+                  />
+                ))}
               </Layer>
             )}
           </Stage>
@@ -793,16 +1550,135 @@ export function StageEditor({
               </div>
             )}
           </div>
-          {cursorPosition && (
+          {isSelecting && (
+            <div className="stage-selection-bar">
+              <span className="stage-selection-bar__status">
+                {selectedStrokes.length
+                  ? `${selectedStrokes.length} ${selectedStrokes.length === 1 ? 'stroke' : 'strokes'} selected`
+                  : tool === 'lasso'
+                    ? 'Draw around strokes to select them'
+                    : 'Drag a box around strokes to select them'}
+              </span>
+              <button type="button" onClick={copySelection} disabled={!selectedStrokes.length} title="Copy (Ctrl+C)">
+                Copy
+              </button>
+              <button type="button" onClick={cutSelection} disabled={!selectedStrokes.length} title="Cut (Ctrl+X)">
+                Cut
+              </button>
+              <button
+                type="button"
+                onClick={pasteStrokes}
+                disabled={!strokeClipboard.length}
+                title="Paste onto the active layer (Ctrl+V)"
+              >
+                Paste
+              </button>
+              <button
+                type="button"
+                onClick={() => flipSelection('horizontal')}
+                disabled={!selectedStrokes.length}
+                title="Flip horizontally"
+              >
+                ⇋
+              </button>
+              <button
+                type="button"
+                onClick={() => flipSelection('vertical')}
+                disabled={!selectedStrokes.length}
+                title="Flip vertically"
+              >
+                ⥮
+              </button>
+              <button
+                type="button"
+                className="danger"
+                onClick={() => deleteSelection()}
+                disabled={!selectedStrokes.length}
+                title="Delete (Del)"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+          <div className="stage-view-controls">
+            {!isFitted && (
+              <StageNavigator
+                frame={frame}
+                view={view}
+                viewport={{ width: stageWidth, height: stageHeight }}
+                onCenter={centerOnFramePoint}
+              />
+            )}
+            <div className="stage-view-controls__row">
+              <button type="button" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out (Ctrl+-)">
+                −
+              </button>
+              <button type="button" onClick={zoomToActualSize} title="Actual size (Ctrl+1)">
+                {Math.round(view.scale * 100)}%
+              </button>
+              <button type="button" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in (Ctrl+=)">
+                +
+              </button>
+              <button type="button" onClick={fitToViewport} disabled={isFitted} title="Fit to view (Ctrl+0)">
+                Fit
+              </button>
+              <button type="button" onClick={() => rotateBy(-ROTATION_STEP)} title="Rotate left (Shift+R)">
+                ⟲
+              </button>
+              <button type="button" onClick={resetRotation} disabled={!view.rotation} title="Reset rotation">
+                {Math.round(view.rotation)}°
+              </button>
+              <button type="button" onClick={() => rotateBy(ROTATION_STEP)} title="Rotate right (R)">
+                ⟳
+              </button>
+            </div>
+          </div>
+          {isFillTool && (
+            <div className="stage-fill-bar">
+              <span className="stage-fill-bar__status">
+                {isFilling ? 'Filling…' : 'Click a closed area to fill it · Shift+click a fill to remove it'}
+              </span>
+              <label>
+                Lines from
+                <select
+                  value={fillSettings.referenceLayer ?? ''}
+                  onChange={(event) =>
+                    setFillSettings((current) => ({ ...current, referenceLayer: event.target.value || null }))
+                  }
+                >
+                  <option value="">All visible layers</option>
+                  {[...new Set(frame.layers.map((layer) => layer.name))].map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label title="Bridges breaks in the line art up to about twice this many pixels wide">
+                Close gaps
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_GAP_CLOSING}
+                  value={fillSettings.gapClosing}
+                  onChange={(event) =>
+                    setFillSettings((current) => ({ ...current, gapClosing: Number(event.target.value) }))
+                  }
+                />
+                <span className="stage-fill-bar__value">{fillSettings.gapClosing}px</span>
+              </label>
+            </div>
+          )}
+          {cursorPosition && !isSpaceHeld && !isPanning && !isSelecting && !isFillTool && (
             <div
               className="brush-cursor"
               style={{
-                width: `${brushSize * scale}px`,
-                height: `${brushSize * scale}px`,
+                width: `${brushSize * view.scale}px`,
+                height: `${brushSize * view.scale}px`,
                 left: `${cursorPosition.x}px`,
                 top: `${cursorPosition.y}px`,
-                marginLeft: `-${(brushSize * scale) / 2}px`,
-                marginTop: `-${(brushSize * scale) / 2}px`,
+                marginLeft: `-${(brushSize * view.scale) / 2}px`,
+                marginTop: `-${(brushSize * view.scale) / 2}px`,
                 borderColor: tool === 'eraser' ? '#ffffff' : brushColor,
               }}
             />
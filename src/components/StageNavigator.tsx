@@ -0,0 +1,60 @@
+import { useRef } from 'react'
+import type { FrameData } from '../types'
+import { getAssetUrl } from '../utils/assets'
+import { toFramePoint, type Point, type StageView } from '../utils/stageView'
+
+interface StageNavigatorProps {
+  frame: FrameData
+  view: StageView
+  viewport: { width: number; height: number }
+  onCenter: (framePoint: Point) => void
+}
+
+const NAVIGATOR_SIZE = 150
+
+export function StageNavigator({ frame, view, viewport, onCenter }: StageNavigatorProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const ratio = NAVIGATOR_SIZE / Math.max(frame.width, frame.height)
+  const width = Math.round(frame.width * ratio)
+  const height = Math.round(frame.height * ratio)
+  const thumbnailId = frame.imageId ?? frame.layers.find((layer) => layer.visible && layer.imageId)?.imageId
+
+  // The viewport's corners in frame space; a rotated canvas shows up as a rotated box
+  const corners = [
+    { x: 0, y: 0 },
+    { x: viewport.width, y: 0 },
+    { x: viewport.width, y: viewport.height },
+    { x: 0, y: viewport.height },
+  ].map((corner) => toFramePoint(view, corner))
+  const polygon = corners.map(({ x, y }) => `${x * ratio},${y * ratio}`).join(' ')
+
+  const centerOnPointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+    onCenter({ x: (event.clientX - rect.left) / ratio, y: (event.clientY - rect.top) / ratio })
+  }
+
+  return (
+    <div className="stage-navigator" aria-label="Canvas navigator">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId)
+          centerOnPointer(event)
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) centerOnPointer(event)
+        }}
+      >
+        <rect width={width} height={height} className="stage-navigator__frame" />
+        {thumbnailId && (
+          <image href={getAssetUrl(thumbnailId)} width={width} height={height} preserveAspectRatio="none" />
+        )}
+        <polygon points={polygon} className="stage-navigator__viewport" />
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import type { AnimatorProject, ProjectStorageReport } from '../types'
+import { getAssetUrl } from '../utils/assets'
+import { buildProjectStorageReport, formatBytes } from '../utils/storageReport'
+
+interface StorageReportProps {
+  project: AnimatorProject
+  onClose: () => void
+}
+
+interface DeviceEstimate {
+  usage: number
+  quota: number
+}
+
+export function StorageReport({ project, onClose }: StorageReportProps) {
+  const [report, setReport] = useState<ProjectStorageReport | null>(null)
+  const [deviceEstimate, setDeviceEstimate] = useState<DeviceEstimate | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    buildProjectStorageReport(project)
+      .then((result) => {
+        if (!cancelled) setReport(result)
+      })
+      .catch((error) => console.error('Failed to build storage report', error))
+    navigator.storage
+      ?.estimate()
+      .then(({ usage = 0, quota = 0 }) => {
+        if (!cancelled) setDeviceEstimate({ usage, quota })
+      })
+      .catch(() => {
+        /* estimate is unavailable in some browsers */
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [project])
+
+  const totalBytes = report ? report.assetBytes + report.strokeBytes : 0
+  const savedBytes = report ? report.undeduplicatedBytes - report.assetBytes : 0
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog storage-report">
+        <div className="project-browser__header">
+          <div>
+            <h2>Storage</h2>
+            <p>{project.name || 'Untitled project'}</p>
+          </div>
+          <button type="button" className="project-browser__close" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        {!report ? (
+          <p className="storage-report__loading">Measuring assets…</p>
+        ) : (
+          <>
+            <dl className="storage-report__summary">
+              <div>
+                <dt>Total</dt>
+                <dd>{formatBytes(totalBytes)}</dd>
+              </div>
+              <div>
+                <dt>Images &amp; audio</dt>
+                <dd>
+                  {formatBytes(report.assetBytes)} in {report.assets.length} asset{report.assets.length !== 1 ? 's' : ''}
+                </dd>
+              </div>
+              <div>
+                <dt>Strokes</dt>
+                <dd>
+                  {formatBytes(report.strokeBytes)} in {report.strokeCount} stroke{report.strokeCount !== 1 ? 's' : ''}
+                </dd>
+              </div>
+              <div>
+                <dt>Saved by deduplication</dt>
+                <dd>{formatBytes(savedBytes)}</dd>
+              </div>
+              {deviceEstimate && deviceEstimate.quota > 0 && (
+                <div>
+                  <dt>Browser storage (all projects)</dt>
+                  <dd>
+                    {formatBytes(deviceEstimate.usage)} of {formatBytes(deviceEstimate.quota)}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="storage-report__list">
+              {report.assets.map((asset) => (
+                <div key={asset.id} className="storage-report__row">
+                  <div className="storage-report__preview">
+                    {asset.type.startsWith('image/') ? (
+                      <img src={getAssetUrl(asset.id)} alt="" />
+                    ) : (
+                      <span>{asset.type.split('/')[0]}</span>
+                    )}
+                  </div>
+                  <div className="storage-report__details">
+                    <span className="storage-report__roles">
+                      {asset.roles.map((role) => (role.count > 1 ? `${role.label} × ${role.count}` : role.label)).join(', ')}
+                    </span>
+                    <span className="storage-report__meta">
+                      {asset.type} • {asset.id.slice(0, 12)}
+                    </span>
+                  </div>
+                  <span className="storage-report__size">{formatBytes(asset.size)}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
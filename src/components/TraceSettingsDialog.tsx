@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react'
+import type { AssetId, TraceSettings } from '../types'
+import { isTraceCancelled, traceImage } from '../utils/autoTraceWorker'
+import { DEFAULT_TRACE_SETTINGS } from '../utils/project'
+
+interface TraceSettingsDialogProps {
+  settings: TraceSettings
+  previewImageId?: AssetId  // Source image of the current frame; missing when it has no image layer
+  previewNeighbourIds: AssetId[]
+  onSave: (settings: TraceSettings) => void
+  onClose: () => void
+}
+
+const PREVIEW_DEBOUNCE_MS = 250
+
+interface SliderOption {
+  key:
+    | 'blurRadius'
+    | 'edgeThreshold'
+    | 'weakThreshold'
+    | 'minSpeckSize'
+    | 'lineThickness'
+    | 'simplifyTolerance'
+    | 'temporalSmoothing'
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+const pixels = (value: number) => `${value}px`
+
+const sliders: SliderOption[] = [
+  { key: 'blurRadius', label: 'Blur radius', min: 0, max: 6, step: 1, format: pixels },
+  { key: 'edgeThreshold', label: 'Edge threshold', min: 0.02, max: 0.8, step: 0.01, format: percent },
+  { key: 'weakThreshold', label: 'Weak edges', min: 0.1, max: 1, step: 0.05, format: percent },
+  { key: 'minSpeckSize', label: 'Remove specks under', min: 0, max: 100, step: 1, format: pixels },
+  { key: 'lineThickness', label: 'Line thickness', min: 1, max: 8, step: 1, format: pixels },
+  { key: 'simplifyTolerance', label: 'Simplify strokes', min: 0, max: 6, step: 0.5, format: pixels },
+  { key: 'temporalSmoothing', label: 'Temporal smoothing', min: 0, max: 0.8, step: 0.05, format: percent },
+]
+
+export function TraceSettingsDialog({
+  settings,
+  previewImageId,
+  previewNeighbourIds,
+  onSave,
+  onClose,
+}: TraceSettingsDialogProps) {
+  const [draft, setDraft] = useState(settings)
+  const [preview, setPreview] = useState<{ url: string; error: boolean } | null>(null)
+  // Compared as a string so a new array with the same ids does not re-run the preview
+  const neighbourKey = previewNeighbourIds.join(',')
+
+  useEffect(() => {
+    if (!previewImageId) return
+    let cancelled = false
+    const timer = window.setTimeout(() => {
+      const neighbourIds = neighbourKey ? neighbourKey.split(',') : []
+      traceImage(previewImageId, draft, { preview: true, neighbourIds })
+        .then(({ outline }) => {
+          if (!cancelled && outline) setPreview({ url: URL.createObjectURL(outline), error: false })
+        })
+        .catch((error) => {
+          if (isTraceCancelled(error)) return
+          console.error('Trace preview failed', error)
+          if (!cancelled) setPreview((current) => ({ url: current?.url ?? '', error: true }))
+        })
+    }, PREVIEW_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [previewImageId, neighbourKey, draft])
+
+  // Each render replaces the last, so the previous object URL is revoked once it is off screen
+  const previewUrl = preview?.url
+  useEffect(() => {
+    if (!previewUrl) return
+    return () => URL.revokeObjectURL(previewUrl)
+  }, [previewUrl])
+
+  const updateDraft = (patch: Partial<TraceSettings>) => setDraft((current) => ({ ...current, ...patch }))
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog trace-settings">
+        <div className="project-browser__header">
+          <div>
+            <h2>Trace settings</h2>
+            <p>Saved with this project and used by Auto Trace</p>
+          </div>
+          <button type="button" className="project-browser__close" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="trace-settings__body">
+          <div className="trace-settings__preview">
+            {!previewImageId ? (
+              <span>Add an image layer to this frame to preview the trace</span>
+            ) : preview?.url ? (
+              <img src={preview.url} alt="Trace preview" />
+            ) : (
+              <span>Rendering preview…</span>
+            )}
+            {preview?.error && <span className="trace-settings__error">Preview failed</span>}
+          </div>
+
+          <div className="trace-settings__controls">
+            <div className="delete-scope-toggle">
+              <label>
+                <input
+                  type="radio"
+                  checked={draft.mode === 'edges'}
+                  onChange={() => updateDraft({ mode: 'edges' })}
+                />
+                All edges
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={draft.mode === 'person'}
+                  onChange={() => updateDraft({ mode: 'person' })}
+                />
+                Person only
+              </label>
+            </div>
+
+            <div className="delete-scope-toggle">
+              <label>
+                <input
+                  type="radio"
+                  checked={draft.output === 'image'}
+                  onChange={() => updateDraft({ output: 'image' })}
+                />
+                Image layer
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={draft.output === 'strokes'}
+                  onChange={() => updateDraft({ output: 'strokes' })}
+                />
+                Editable strokes
+              </label>
+            </div>
+
+            <label className="trace-settings__check">
+              <input
+                type="checkbox"
+                checked={draft.hysteresis}
+                onChange={(event) => updateDraft({ hysteresis: event.target.checked })}
+              />
+              Hysteresis (keep weak edges connected to strong ones)
+            </label>
+
+            {sliders.map(({ key, label, min, max, step, format }) => {
+              const disabled =
+                (key === 'weakThreshold' && !draft.hysteresis) ||
+                (key === 'simplifyTolerance' && draft.output !== 'strokes')
+              return (
+                <label key={key} className={`trace-settings__row${disabled ? ' disabled' : ''}`}>
+                  <span>{label}</span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={draft[key]}
+                    disabled={disabled}
+                    onChange={(event) => updateDraft({ [key]: Number(event.target.value) })}
+                  />
+                  <output>{format(draft[key])}</output>
+                </label>
+              )
+            })}
+
+            <label className={`trace-settings__check${draft.temporalSmoothing > 0 ? '' : ' disabled'}`}>
+              <input
+                type="checkbox"
+                checked={draft.motionCompensation}
+                disabled={draft.temporalSmoothing <= 0}
+                onChange={(event) => updateDraft({ motionCompensation: event.target.checked })}
+              />
+              Motion-compensate neighbouring frames
+            </label>
+
+            <label className="trace-settings__row">
+              <span>Line color</span>
+              <input
+                type="color"
+                value={draft.lineColor}
+                onChange={(event) => updateDraft({ lineColor: event.target.value })}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={() => setDraft(DEFAULT_TRACE_SETTINGS)}>
+            Reset
+          </button>
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onSave(draft)}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
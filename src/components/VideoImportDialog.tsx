@@ -0,0 +1,386 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import type { CropRect, VideoImportOptions, VideoPlacement, VideoRotation } from '../types'
+import { FrameRateSelect } from './FrameRateSelect'
+import {
+  MAX_SIDE_PRESETS,
+  createVideoImportOptions,
+  estimateImportFrameCount,
+  getImportOutputSize,
+} from '../utils/videoImport'
+
+interface VideoImportDialogProps {
+  file: File
+  fps: number  // Starting rate for a new project; the clip always uses it when added to the open one
+  frameCount?: number  // Frames in the open project; enables inserting the clip or adding it as a layer
+  frameSize?: { width: number; height: number }  // The open project's frame size, which added clips are fitted to
+  activeFrameIndex?: number
+  onImport: (options: VideoImportOptions) => void
+  onClose: () => void
+}
+
+interface VideoMetadata {
+  width: number
+  height: number
+  duration: number
+}
+
+// Crops smaller than this are treated as a stray click
+const MIN_CROP_SIZE = 8
+
+const formatSeconds = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const rest = (seconds - minutes * 60).toFixed(2).padStart(5, '0')
+  return `${minutes}:${rest}`
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const toPosition = (value: string, max: number) => clamp(Math.round(Number(value)) || 1, 1, max)
+
+export function VideoImportDialog({
+  file,
+  fps,
+  frameCount,
+  frameSize,
+  activeFrameIndex = 0,
+  onImport,
+  onClose,
+}: VideoImportDialogProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const frameRef = useRef<HTMLDivElement | null>(null)
+  const cropOriginRef = useRef<{ x: number; y: number } | null>(null)
+  const [metadata, setMetadata] = useState<VideoMetadata | null>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [draft, setDraft] = useState<VideoImportOptions>(() => createVideoImportOptions(0, fps))
+  // Kept apart so switching placement does not carry one position over to the other
+  const [insertPosition, setInsertPosition] = useState(activeFrameIndex + 2)
+  const [layerPosition, setLayerPosition] = useState(activeFrameIndex + 1)
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+    const url = URL.createObjectURL(file)
+    video.src = url
+    return () => {
+      video.removeAttribute('src')
+      URL.revokeObjectURL(url)
+    }
+  }, [file])
+
+  const updateDraft = (patch: Partial<VideoImportOptions>) => setDraft((current) => ({ ...current, ...patch }))
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current
+    if (!video) return
+    const duration = Number.isFinite(video.duration) ? video.duration : 0
+    setMetadata({ width: video.videoWidth, height: video.videoHeight, duration })
+    setDraft((current) => ({ ...current, start: 0, end: duration }))
+  }
+
+  const seek = (time: number) => {
+    const video = videoRef.current
+    if (!video || !metadata) return
+    const next = clamp(time, 0, metadata.duration)
+    video.currentTime = next
+    setCurrentTime(next)
+  }
+
+  // Maps a pointer position into source pixels, undoing the preview's CSS rotation about its centre
+  const toSourcePoint = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const frame = frameRef.current
+    if (!frame || !metadata) return null
+    const bounds = frame.getBoundingClientRect()
+    const angle = (-draft.rotation * Math.PI) / 180
+    const offsetX = event.clientX - (bounds.left + bounds.width / 2)
+    const offsetY = event.clientY - (bounds.top + bounds.height / 2)
+    const localX = offsetX * Math.cos(angle) - offsetY * Math.sin(angle) + frame.offsetWidth / 2
+    const localY = offsetX * Math.sin(angle) + offsetY * Math.cos(angle) + frame.offsetHeight / 2
+    return {
+      x: clamp((localX / frame.offsetWidth) * metadata.width, 0, metadata.width),
+      y: clamp((localY / frame.offsetHeight) * metadata.height, 0, metadata.height),
+    }
+  }
+
+  const updateCrop = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const origin = cropOriginRef.current
+    const point = toSourcePoint(event)
+    if (!origin || !point) return
+    const crop: CropRect = {
+      x: Math.min(origin.x, point.x),
+      y: Math.min(origin.y, point.y),
+      width: Math.abs(point.x - origin.x),
+      height: Math.abs(point.y - origin.y),
+    }
+    updateDraft({ crop })
+  }
+
+  const handleCropStart = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const point = toSourcePoint(event)
+    if (!point) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    cropOriginRef.current = point
+    updateDraft({ crop: null })
+  }
+
+  const handleCropEnd = () => {
+    cropOriginRef.current = null
+    setDraft((current) =>
+      current.crop && (current.crop.width < MIN_CROP_SIZE || current.crop.height < MIN_CROP_SIZE)
+        ? { ...current, crop: null }
+        : current,
+    )
+  }
+
+  const rotate = (delta: number) =>
+    updateDraft({ rotation: (((draft.rotation + delta) % 360) + 360) % 360 as VideoRotation })
+
+  const isAddingToProject = draft.placement !== 'new-project'
+  const importOptions: VideoImportOptions = {
+    ...draft,
+    // Added clips share the project's timeline, so they are sampled at its rate
+    fps: isAddingToProject ? fps : draft.fps,
+    position: draft.placement === 'insert-frames' ? insertPosition : layerPosition,
+  }
+
+  const duration = metadata?.duration ?? 0
+  const isTurned = draft.rotation === 90 || draft.rotation === 270
+  const outputSize = metadata ? getImportOutputSize(importOptions, metadata.width, metadata.height) : null
+  const clipFrames = estimateImportFrameCount(importOptions)
+  // A layer only covers the frames that already exist from its start position on
+  const frameTotal =
+    draft.placement === 'add-layer' && frameCount !== undefined
+      ? Math.min(clipFrames, frameCount - layerPosition + 1)
+      : clipFrames
+  const canImport = !!metadata && draft.end > draft.start
+  // Clips going into the open project are letterboxed onto its frames, so Max size does not apply
+  const fittedSize = isAddingToProject ? frameSize : undefined
+  const summarySize = fittedSize
+    ? `fitted to ${fittedSize.width}×${fittedSize.height}`
+    : outputSize && `at ${outputSize.width}×${outputSize.height}`
+
+  const renderPlacement = (placement: VideoPlacement) => (
+    <input type="radio" checked={draft.placement === placement} onChange={() => updateDraft({ placement })} />
+  )
+
+  return (
+    <div className="dialog-overlay">
+      <div className="confirm-dialog video-import">
+        <div className="project-browser__header">
+          <div>
+            <h2>Import video</h2>
+            <p>{file.name}</p>
+          </div>
+          <button type="button" className="project-browser__close" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="video-import__stage">
+          <div
+            ref={frameRef}
+            className="video-import__frame"
+            style={{ transform: `rotate(${draft.rotation}deg)` }}
+          >
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              preload="auto"
+              style={{ maxWidth: isTurned ? '40vh' : '100%' }}
+              onLoadedMetadata={handleLoadedMetadata}
+              onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+            />
+            {metadata && (
+              <div
+                className="video-import__crop-surface"
+                onPointerDown={handleCropStart}
+                onPointerMove={updateCrop}
+                onPointerUp={handleCropEnd}
+                onPointerCancel={handleCropEnd}
+              >
+                {draft.crop && (
+                  <div
+                    className="video-import__crop"
+                    style={{
+                      left: `${(draft.crop.x / metadata.width) * 100}%`,
+                      top: `${(draft.crop.y / metadata.height) * 100}%`,
+                      width: `${(draft.crop.width / metadata.width) * 100}%`,
+                      height: `${(draft.crop.height / metadata.height) * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="video-import__scrub">
+          <div className="video-import__timeline">
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={0.01}
+              value={currentTime}
+              disabled={!metadata}
+              onChange={(event) => seek(Number(event.target.value))}
+              aria-label="Scrub"
+            />
+            {duration > 0 && (
+              <div
+                className="video-import__trim-track"
+                style={{
+                  left: `${(draft.start / duration) * 100}%`,
+                  width: `${((draft.end - draft.start) / duration) * 100}%`,
+                }}
+              />
+            )}
+          </div>
+          <output>{formatSeconds(currentTime)}</output>
+        </div>
+
+        <div className="video-import__controls">
+          {frameCount !== undefined && (
+            <div className="delete-scope-toggle video-import__placement">
+              <label>
+                {renderPlacement('new-project')}
+                New project (replaces the open one)
+              </label>
+              <label>
+                {renderPlacement('insert-frames')}
+                Insert as frames at position
+                <input
+                  type="number"
+                  min={1}
+                  max={frameCount + 1}
+                  value={insertPosition}
+                  onFocus={() => updateDraft({ placement: 'insert-frames' })}
+                  onChange={(event) => setInsertPosition(toPosition(event.target.value, frameCount + 1))}
+                  aria-label="Insert position"
+                />
+              </label>
+              <label>
+                {renderPlacement('add-layer')}
+                Add as a video layer from frame
+                <input
+                  type="number"
+                  min={1}
+                  max={frameCount}
+                  value={layerPosition}
+                  onFocus={() => updateDraft({ placement: 'add-layer' })}
+                  onChange={(event) => setLayerPosition(toPosition(event.target.value, frameCount))}
+                  aria-label="First frame"
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="video-import__trim">
+            <label>
+              <span>In</span>
+              <input
+                type="number"
+                min={0}
+                max={draft.end}
+                step={0.1}
+                value={Number(draft.start.toFixed(2))}
+                disabled={!metadata}
+                onChange={(event) => updateDraft({ start: clamp(Number(event.target.value) || 0, 0, draft.end) })}
+              />
+            </label>
+            <button
+              type="button"
+              disabled={!metadata}
+              onClick={() => updateDraft({ start: Math.min(currentTime, draft.end) })}
+            >
+              Set in
+            </button>
+            <label>
+              <span>Out</span>
+              <input
+                type="number"
+                min={draft.start}
+                max={duration}
+                step={0.1}
+                value={Number(draft.end.toFixed(2))}
+                disabled={!metadata}
+                onChange={(event) =>
+                  updateDraft({ end: clamp(Number(event.target.value) || 0, draft.start, duration) })
+                }
+              />
+            </label>
+            <button
+              type="button"
+              disabled={!metadata}
+              onClick={() => updateDraft({ end: Math.max(currentTime, draft.start) })}
+            >
+              Set out
+            </button>
+          </div>
+
+          <div className="video-import__options">
+            <FrameRateSelect
+              value={importOptions.fps}
+              onChange={(value) => updateDraft({ fps: value })}
+              disabled={isAddingToProject}
+              label="Frame rate"
+            />
+            <label className="frame-rate-select">
+              <span>Max size</span>
+              <select
+                value={fittedSize ? 'project' : (draft.maxSide ?? 'original')}
+                disabled={!!fittedSize}
+                onChange={(event) =>
+                  updateDraft({ maxSide: event.target.value === 'original' ? null : Number(event.target.value) })
+                }
+              >
+                {fittedSize && (
+                  <option value="project">
+                    {fittedSize.width}×{fittedSize.height} (project)
+                  </option>
+                )}
+                {MAX_SIDE_PRESETS.map((side) => (
+                  <option key={side} value={side}>
+                    {side}px
+                  </option>
+                ))}
+                <option value="original">Original</option>
+              </select>
+            </label>
+            <div className="video-import__buttons">
+              <button type="button" onClick={() => rotate(-90)} title="Rotate left">
+                ⟲
+              </button>
+              <button type="button" onClick={() => rotate(90)} title="Rotate right">
+                ⟳
+              </button>
+              <button type="button" disabled={!draft.crop} onClick={() => updateDraft({ crop: null })}>
+                Clear crop
+              </button>
+            </div>
+          </div>
+
+          <p className="video-import__summary">
+            {metadata
+              ? `${formatSeconds(draft.start)} – ${formatSeconds(draft.end)} • about ${frameTotal} frame${
+                  frameTotal !== 1 ? 's' : ''
+                } ${summarySize}`
+              : 'Reading video…'}
+            {metadata && frameTotal < clipFrames && ' (the rest runs past the last frame)'}
+            {metadata && !draft.crop && ' • drag on the preview to crop'}
+          </p>
+        </div>
+
+        <div className="dialog-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" disabled={!canImport} onClick={() => onImport(importOptions)}>
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
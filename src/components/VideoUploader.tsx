@@ -1,9 +1,15 @@
-import { useRef } from 'react'
+import { useRef, useState } from 'react'
 import type { ChangeEvent } from 'react'
+import { FrameRateSelect } from './FrameRateSelect'
+import { VideoImportDialog } from './VideoImportDialog'
+import { DEFAULT_FPS } from '../utils/project'
+import { SEQUENCE_ACCEPT } from '../utils/sequenceImport'
+import type { VideoImportOptions } from '../types'
 
 interface VideoUploaderProps {
   disabled?: boolean
-  onVideoSelected: (file: File) => void
+  onVideoSelected: (file: File, options: VideoImportOptions) => void
+  onFramesSelected?: (files: File[]) => void
   title?: string
   description?: string
 }
@@ -11,20 +17,30 @@ interface VideoUploaderProps {
 export function VideoUploader({
   disabled,
   onVideoSelected,
+  onFramesSelected,
   title = 'Upload reference video',
   description = 'Supported formats: mp4, mov, webm. Processing stays entirely offline.',
 }: VideoUploaderProps) {
   const inputRef = useRef<HTMLInputElement | null>(null)
+  const framesInputRef = useRef<HTMLInputElement | null>(null)
+  const [fps, setFps] = useState(DEFAULT_FPS)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      onVideoSelected(file)
+      setPendingFile(file)
       // reset value so the same file can be re-selected later
       event.target.value = ''
     }
   }
 
+  const handleFramesChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    if (files.length) onFramesSelected?.(files)
+    event.target.value = ''
+  }
+
   return (
     <div className="panel">
       <div className="panel-header panel-header--stack">
@@ -32,6 +48,7 @@ export function VideoUploader({
         <p>{description}</p>
       </div>
       <div className="panel-body upload-panel">
+        <FrameRateSelect value={fps} onChange={setFps} disabled={disabled} label="Frame rate" />
         <button
           className="primary"
           disabled={disabled}
@@ -46,7 +63,33 @@ export function VideoUploader({
           hidden
           onChange={handleFileChange}
         />
+        {onFramesSelected && (
+          <>
+            <button className="ghost" disabled={disabled} onClick={() => framesInputRef.current?.click()}>
+              Import image sequence / GIF
+            </button>
+            <input
+              ref={framesInputRef}
+              type="file"
+              accept={SEQUENCE_ACCEPT}
+              multiple
+              hidden
+              onChange={handleFramesChange}
+            />
+          </>
+        )}
       </div>
+      {pendingFile && (
+        <VideoImportDialog
+          file={pendingFile}
+          fps={fps}
+          onImport={(options) => {
+            setPendingFile(null)
+            onVideoSelected(pendingFile, options)
+          }}
+          onClose={() => setPendingFile(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { OnionSkinSettings } from '../types'
+import { normalizeOnionSkin } from '../utils/onionSkin'
+
+const ONION_SKIN_STORAGE_KEY = 'animator-onion-skin'
+
+export interface UseOnionSkinResult {
+  settings: OnionSkinSettings
+  updateSettings: (patch: Partial<OnionSkinSettings>) => void
+}
+
+const readStoredSettings = () => {
+  try {
+    const stored = window.localStorage.getItem(ONION_SKIN_STORAGE_KEY)
+    return normalizeOnionSkin(stored ? (JSON.parse(stored) as Partial<OnionSkinSettings>) : null)
+  } catch {
+    return normalizeOnionSkin()
+  }
+}
+
+export function useOnionSkin(): UseOnionSkinResult {
+  const [settings, setSettings] = useState(readStoredSettings)
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(ONION_SKIN_STORAGE_KEY, JSON.stringify(settings))
+    } catch {
+      /* storage may be unavailable in private mode */
+    }
+  }, [settings])
+
+  const updateSettings = useCallback((patch: Partial<OnionSkinSettings>) => {
+    setSettings((current) => normalizeOnionSkin({ ...current, ...patch }))
+  }, [])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { AnimatorProject, SaveStatus } from '../types'
+import { saveProject } from '../utils/storage'
+
+interface UseProjectAutosaveResult {
+  status: SaveStatus
+  flush: () => Promise<void>
+  markPersisted: (project: AnimatorProject) => void
+  discard: (projectId: string) => void
+}
+
+const SAVE_DELAY_MS = 800
+
+export function useProjectAutosave(project: AnimatorProject | null): UseProjectAutosaveResult {
+  const [savedProject, setSavedProject] = useState<AnimatorProject | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [hasFailed, setHasFailed] = useState(false)
+
+  // Last state known to be on disk for each project; saves only write what differs from it
+  const persistedRef = useRef(new Map<string, AnimatorProject>())
+  const pendingRef = useRef<AnimatorProject | null>(null)
+  const timerRef = useRef<number | null>(null)
+  // Saves run one after another so a slow write never lands after a newer one
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    const next = pendingRef.current
+    pendingRef.current = null
+    if (next) {
+      queueRef.current = queueRef.current.then(async () => {
+        setIsSaving(true)
+        try {
+          await saveProject(next, persistedRef.current.get(next.id))
+          persistedRef.current.set(next.id, next)
+          setSavedProject(next)
+          setHasFailed(false)
+        } catch (error) {
+          console.error('Failed to save project', error)
+          // What reached the disk is unknown now, so the next save writes everything
+          persistedRef.current.delete(next.id)
+          setHasFailed(true)
+        } finally {
+          setIsSaving(false)
+        }
+      })
+    }
+    return queueRef.current
+  }, [])
+
+  const markPersisted = useCallback((persisted: AnimatorProject) => {
+    persistedRef.current.set(persisted.id, persisted)
+    setSavedProject(persisted)
+    setHasFailed(false)
+  }, [])
+
+  const discard = useCallback((projectId: string) => {
+    if (pendingRef.current?.id === projectId) {
+      pendingRef.current = null
+      if (timerRef.current !== null) {
+        window.clearTimeout(timerRef.current)
+        timerRef.current = null
+      }
+    }
+    persistedRef.current.delete(projectId)
+  }, [])
+
+  useEffect(() => {
+    // Switching projects writes out the previous one right away instead of waiting for the timer
+    if (pendingRef.current && pendingRef.current.id !== project?.id) {
+      void flush()
+    }
+    if (!project || persistedRef.current.get(project.id) === project) return
+    pendingRef.current = project
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current)
+    }
+    timerRef.current = window.setTimeout(() => {
+      void flush()
+    }, SAVE_DELAY_MS)
+  }, [project, flush])
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        void flush()
+      }
+    }
+    const handlePageHide = () => {
+      void flush()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', handlePageHide)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', handlePageHide)
+      void flush()
+    }
+  }, [flush])
+
+  let status: SaveStatus = 'idle'
+  if (hasFailed) {
+    status = 'error'
+  } else if (isSaving) {
+    status = 'saving'
+  } else if (project) {
+    status = project === savedProject ? 'saved' : 'pending'
+  }
+
+  return { status, flush, markPersisted, discard }
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { AnimatorProject } from '../types'
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  timestamp: number
+  // Project state on the other side of this command: before it while in `past`, after it while in `future`
+  snapshot: AnimatorProject
+  coalesceKey?: string
+}
+
+interface HistoryState {
+  project: AnimatorProject | null
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+interface CommitOptions {
+  // Consecutive commits sharing a key within COALESCE_WINDOW_MS collapse into one entry (e.g. typing a name)
+  coalesceKey?: string
+  // Overrides COALESCE_WINDOW_MS, e.g. Infinity for a long-running job that commits as it goes
+  coalesceWindowMs?: number
+}
+
+type ProjectUpdater = (current: AnimatorProject) => AnimatorProject | null | undefined
+
+interface UseProjectHistoryResult {
+  project: AnimatorProject | null
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  canUndo: boolean
+  canRedo: boolean
+  depth: number
+  setDepth: (depth: number) => void
+  commit: (label: string, updater: ProjectUpdater, options?: CommitOptions) => void
+  update: (updater: ProjectUpdater) => void
+  reset: (project: AnimatorProject | null) => void
+  undo: () => void
+  redo: () => void
+  goTo: (position: number) => void
+}
+
+export const DEFAULT_HISTORY_DEPTH = 100
+export const MIN_HISTORY_DEPTH = 10
+export const MAX_HISTORY_DEPTH = 500
+
+const DEPTH_STORAGE_KEY = 'animator-history-depth'
+const COALESCE_WINDOW_MS = 1500
+
+const EMPTY_STATE: HistoryState = { project: null, past: [], future: [] }
+
+let entryCounter = 0
+
+const clampDepth = (depth: number) =>
+  Math.min(MAX_HISTORY_DEPTH, Math.max(MIN_HISTORY_DEPTH, Math.round(depth) || DEFAULT_HISTORY_DEPTH))
+
+const readStoredDepth = () => {
+  try {
+    const stored = Number(window.localStorage.getItem(DEPTH_STORAGE_KEY))
+    return stored ? clampDepth(stored) : DEFAULT_HISTORY_DEPTH
+  } catch {
+    return DEFAULT_HISTORY_DEPTH
+  }
+}
+
+const undoState = (state: HistoryState): HistoryState => {
+  const entry = state.past[state.past.length - 1]
+  if (!entry || !state.project) return state
+  return {
+    project: entry.snapshot,
+    past: state.past.slice(0, -1),
+    future: [{ ...entry, snapshot: state.project }, ...state.future],
+  }
+}
+
+const redoState = (state: HistoryState): HistoryState => {
+  const entry = state.future[0]
+  if (!entry || !state.project) return state
+  return {
+    project: entry.snapshot,
+    past: [...state.past, { ...entry, snapshot: state.project }],
+    future: state.future.slice(1),
+  }
+}
+
+export function useProjectHistory(): UseProjectHistoryResult {
+  const [state, setState] = useState<HistoryState>(EMPTY_STATE)
+  const [depth, setDepthState] = useState(readStoredDepth)
+  const depthRef = useRef(depth)
+
+  useEffect(() => {
+    depthRef.current = depth
+    try {
+      window.localStorage.setItem(DEPTH_STORAGE_KEY, String(depth))
+    } catch {
+      /* storage may be unavailable in private mode */
+    }
+  }, [depth])
+
+  const setDepth = useCallback((nextDepth: number) => {
+    const clamped = clampDepth(nextDepth)
+    setDepthState(clamped)
+    setState((current) =>
+      current.past.length > clamped
+        ? { ...current, past: current.past.slice(-clamped) }
+        : current,
+    )
+  }, [])
+
+  const commit = useCallback((label: string, updater: ProjectUpdater, options?: CommitOptions) => {
+    const timestamp = Date.now()
+    const id = ++entryCounter
+    setState((current) => {
+      if (!current.project) return current
+      const next = updater(current.project)
+      if (!next || next === current.project) return current
+
+      const last = current.past[current.past.length - 1]
+      if (
+        options?.coalesceKey &&
+        last?.coalesceKey === options.coalesceKey &&
+        !current.future.length &&
+        timestamp - last.timestamp < (options.coalesceWindowMs ?? COALESCE_WINDOW_MS)
+      ) {
+        const refreshed = { ...last, timestamp }
+        return { ...current, project: next, past: [...current.past.slice(0, -1), refreshed] }
+      }
+
+      const entry: HistoryEntry = {
+        id,
+        label,
+        timestamp,
+        snapshot: current.project,
+        coalesceKey: options?.coalesceKey,
+      }
+      return {
+        project: next,
+        past: [...current.past, entry].slice(-depthRef.current),
+        future: [],
+      }
+    })
+  }, [])
+
+  const update = useCallback((updater: ProjectUpdater) => {
+    setState((current) => {
+      if (!current.project) return current
+      const next = updater(current.project)
+      if (!next || next === current.project) return current
+      return { ...current, project: next }
+    })
+  }, [])
+
+  const reset = useCallback((project: AnimatorProject | null) => {
+    setState({ project, past: [], future: [] })
+  }, [])
+
+  const undo = useCallback(() => setState(undoState), [])
+
+  const redo = useCallback(() => setState(redoState), [])
+
+  // position = number of applied commands (0 is the oldest state still in history)
+  const goTo = useCallback((position: number) => {
+    setState((current) => {
+      let next = current
+      while (next.past.length > position && next.past.length > 0) {
+        next = undoState(next)
+      }
+      while (next.past.length < position && next.future.length > 0) {
+        next = redoState(next)
+      }
+      return next
+    })
+  }, [])
+
+  return useMemo(
+    () => ({
+      project: state.project,
+      past: state.past,
+      future: state.future,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+      depth,
+      setDepth,
+      commit,
+      update,
+      reset,
+      undo,
+      redo,
+      goTo,
+    }),
+    [state, depth, setDepth, commit, update, reset, undo, redo, goTo],
+  )
+}
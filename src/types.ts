@@ -1,11 +1,71 @@
 export type DrawingTool = 'pencil' | 'smooth' | 'highlight' | 'gradient' | 'eraser'
 
+// Selection tools pick strokes on the active layer instead of drawing
+export type SelectionTool = 'lasso' | 'marquee'
+
+export type EditorTool = DrawingTool | SelectionTool | 'fill'
+
 export interface DrawingStroke {
   id: string
   points: number[]
   color: string
   size: number
   mode: DrawingTool
+  widths?: number[]  // Per-point width as a factor of size, from pen pressure or drawing speed; missing means uniform
+  opacity?: number  // 0-1, from average pen pressure when brush opacity dynamics are on; missing means opaque
+}
+
+// Which pointer dynamics new strokes record
+export interface BrushDynamics {
+  width: boolean  // Pen pressure and tilt, or speed for mice and touch, vary the width along the stroke
+  opacity: boolean  // Pen pressure sets the stroke's opacity
+}
+
+// 'edges' traces every edge in the frame; 'person' segments the subject first and traces only its silhouette and interior
+export type AutoTraceMode = 'edges' | 'person'
+
+export interface TraceSettings {
+  mode: AutoTraceMode
+  blurRadius: number  // Gaussian blur radius in px before edge detection; 0 disables it
+  edgeThreshold: number  // 0-1 share of the strongest edge a pixel needs to become a line
+  hysteresis: boolean  // Canny-style: weaker edges survive only when connected to a strong one
+  weakThreshold: number  // 0-1 share of edgeThreshold that still counts as a weak edge
+  minSpeckSize: number  // Connected line fragments shorter than this many px are dropped
+  lineThickness: number  // Output line width in px
+  lineColor: string
+  output: 'image' | 'strokes'  // Raster outline layer, or editable strokes vectorized from the lines
+  simplifyTolerance: number  // Max px a simplified stroke may stray from the traced pixels
+  temporalSmoothing: number  // 0-1 share of edge strength taken from the previous and next frames
+  motionCompensation: boolean  // Shift neighbouring frames into place before blending them
+}
+
+// Stage-only display preference, kept in localStorage rather than on the project
+export interface OnionSkinSettings {
+  enabled: boolean
+  before: number  // Frames shown before the current one
+  after: number  // Frames shown after it
+  pastColor: string  // Tint for earlier frames
+  futureColor: string  // Tint for later frames
+  opacity: number  // 0-1 opacity of the nearest frame on either side
+  falloff: number  // 0-1 share of opacity lost for each further frame
+  outlineOnly: boolean  // Draw only the edges of strokes, so the current drawing stays readable
+  includeImages: boolean  // Also show image layers (video frames, imports, raster traces)
+}
+
+// SHA-256 of the asset's bytes; resolved to a Blob or object URL through utils/assets
+export type AssetId = string
+
+// A paint bucket fill; the region is kept as pixel runs so it can be recoloured or removed later
+export interface LayerFill {
+  id: string
+  color: string
+  runs: number[]  // [y, xStart, xEnd, ...] triples in frame pixels, xEnd exclusive
+  seed: { x: number; y: number }  // Where it was clicked, in frame coordinates
+}
+
+export interface FillSettings {
+  referenceLayer: string | null  // Name of the layer whose lines bound the fill; null uses every visible layer
+  gapClosing: number  // Gaps in the line art up to about twice this many px are treated as closed
 }
 
 export interface DrawingLayer {
@@ -13,27 +73,86 @@ export interface DrawingLayer {
   name: string
   visible: boolean
   strokes: DrawingStroke[]
-  imageUrl?: string
+  fills?: LayerFill[]  // Drawn under the layer's strokes
+  imageId?: AssetId
 }
 
 export interface FrameData {
   id: string
   frameNumber: number
-  imageUrl: string
-  outlineUrl?: string
-  compositedUrl?: string
+  imageId: AssetId
+  outlineId?: AssetId
+  compositedId?: AssetId
   layers: DrawingLayer[]
   activeLayerId: string
   width: number
   height: number
+  duration?: number  // Hold length in ticks (1 tick = 1/fps); missing means 1
 }
 
 export interface AnimatorProject {
+  id: string
   name?: string
   backgroundColor?: string
+  fps?: number  // Playback/export rate; projects saved before this existed run at DEFAULT_FPS
   frames: FrameData[]
-  audioUrl?: string  // Extracted audio from video as data URL
+  audioId?: AssetId  // Audio extracted from the source video
+  traceSettings?: TraceSettings  // Auto Trace parameters; missing means DEFAULT_TRACE_SETTINGS
+  autoTraceJob?: AutoTraceJob
+  updatedAt: number
+}
+
+export type AutoTraceScope = 'current' | 'selection' | 'range' | 'all'  // 'selection' is the timeline multi-selection
+
+export interface AutoTraceRunOptions {
+  scope: AutoTraceScope
+  rangeStart: number  // 1-based timeline positions, inclusive; used when scope is 'range'
+  rangeEnd: number
+  replaceExisting: boolean  // Swap out earlier Auto Trace layers instead of skipping those frames
+}
+
+// An Auto Trace run that has not finished; it lives on the project so it survives cancels and reloads
+export interface AutoTraceJob {
+  id: string
+  frameIds: string[]  // Frames still to trace, in timeline order
+  total: number  // Frames in the whole run, for progress
+  replaceExisting: boolean
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
   updatedAt: number
+  frameCount: number
+  thumbnail?: string
+}
+
+export type VideoRotation = 0 | 90 | 180 | 270
+
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type VideoPlacement = 'new-project' | 'insert-frames' | 'add-layer'
+
+export interface VideoImportOptions {
+  placement: VideoPlacement
+  position: number  // 1-based frame the clip starts at when added to the open project
+  fps: number
+  start: number  // Seconds into the clip where extraction begins
+  end: number  // Seconds into the clip where extraction stops
+  maxSide: number | null  // Longest output side in px (never upscaled); null keeps the cropped source size
+  crop: CropRect | null  // In source pixels, before rotation
+  rotation: VideoRotation  // Clockwise, applied after the crop
+}
+
+export interface FrameImportOptions {
+  placement: Exclude<VideoPlacement, 'add-layer'>
+  position: number  // 1-based frame the imported frames start at when inserted
+  fps: number  // Project rate for a new project; GIFs are resampled at it
 }
 
 export interface ExportProgress {
@@ -42,3 +161,32 @@ export interface ExportProgress {
 }
 
 export type ExportKind = 'mp4' | 'gif' | 'png-sequence'
+
+export interface GifExportOptions {
+  loop: number  // ffmpeg -loop semantics: 0 = forever, -1 = play once, N = repeat N times
+  dither: boolean
+  maxWidth: number | null  // null keeps the frame width
+}
+
+export interface ExportOptions {
+  kind: ExportKind
+  gif: GifExportOptions
+}
+
+export type SaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
+export interface AssetUsage {
+  id: AssetId
+  size: number
+  type: string
+  references: number  // Frames, layers or the project itself pointing at this asset
+  roles: { label: string; count: number }[]
+}
+
+export interface ProjectStorageReport {
+  assets: AssetUsage[]  // Largest first
+  assetBytes: number  // Each unique asset counted once, as stored
+  undeduplicatedBytes: number  // What storing a copy per reference would take
+  strokeBytes: number
+  strokeCount: number
+}
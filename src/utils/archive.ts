@@ -0,0 +1,177 @@
+import JSZip from 'jszip'
+import { v4 as uuidv4 } from 'uuid'
+import type { AnimatorProject, AssetId, DrawingLayer, FrameData } from '../types'
+import { getAssetBlob, putAsset } from './assets'
+
+export const ARCHIVE_FORMAT = 'my-animator-project'
+export const ARCHIVE_VERSION = 1
+export const ARCHIVE_EXTENSION = '.animator'
+
+const DOCUMENT_NAME = 'project.json'
+
+// Binary payloads live next to the document; these fields hold archive paths instead of asset ids
+type ArchivedLayer = Omit<DrawingLayer, 'imageId'> & { image?: string }
+
+type ArchivedFrame = Omit<FrameData, 'imageId' | 'outlineId' | 'compositedId' | 'layers'> & {
+  image: string
+  outline?: string
+  composited?: string
+  compositedUrl?: string  // Inline data URL in archives written before composites were packed as files
+  layers: ArchivedLayer[]
+}
+
+export interface ProjectArchiveDocument {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: number
+  project: Omit<AnimatorProject, 'frames' | 'audioId'> & {
+    audio?: string
+    frames: ArchivedFrame[]
+  }
+}
+
+const extensionForMime = (mimeType: string) => {
+  if (mimeType.includes('png')) return 'png'
+  if (mimeType.includes('jpeg') || mimeType.includes('jpg')) return 'jpg'
+  if (mimeType.includes('webp')) return 'webp'
+  if (mimeType.includes('gif')) return 'gif'
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'mp3'
+  return 'bin'
+}
+
+const mimeForPath = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'png':
+      return 'image/png'
+    case 'jpg':
+      return 'image/jpeg'
+    case 'webp':
+      return 'image/webp'
+    case 'gif':
+      return 'image/gif'
+    case 'mp3':
+      return 'audio/mp3'
+    default:
+      return 'application/octet-stream'
+  }
+}
+
+export const exportProjectArchive = async (project: AnimatorProject): Promise<Blob> => {
+  const zip = new JSZip()
+  // Assets shared between frames (reference images, repeated backgrounds) are written once
+  const writtenPaths = new Map<AssetId, string>()
+
+  const addBinary = async (assetId: AssetId, folder: string) => {
+    const existing = writtenPaths.get(assetId)
+    if (existing) return existing
+    const blob = await getAssetBlob(assetId)
+    const path = `${folder}/${assetId}.${extensionForMime(blob.type)}`
+    zip.file(path, blob)
+    writtenPaths.set(assetId, path)
+    return path
+  }
+
+  const frames: ArchivedFrame[] = []
+  for (const frame of project.frames) {
+    const { imageId, outlineId, compositedId, layers, ...rest } = frame
+    const archivedLayers: ArchivedLayer[] = []
+    for (const layer of layers) {
+      const { imageId: layerImageId, ...layerRest } = layer
+      archivedLayers.push(
+        layerImageId
+          ? { ...layerRest, image: await addBinary(layerImageId, 'layers') }
+          : layerRest,
+      )
+    }
+    frames.push({
+      ...rest,
+      image: await addBinary(imageId, 'frames'),
+      outline: outlineId ? await addBinary(outlineId, 'outlines') : undefined,
+      composited: compositedId ? await addBinary(compositedId, 'composited') : undefined,
+      layers: archivedLayers,
+    })
+  }
+
+  const { audioId, ...projectRest } = project
+  const archiveDocument: ProjectArchiveDocument = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      ...projectRest,
+      audio: audioId ? await addBinary(audioId, 'audio') : undefined,
+      frames,
+    },
+  }
+  zip.file(DOCUMENT_NAME, JSON.stringify(archiveDocument, null, 2))
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' })
+}
+
+export const importProjectArchive = async (file: Blob): Promise<AnimatorProject> => {
+  const zip = await JSZip.loadAsync(file)
+  const documentFile = zip.file(DOCUMENT_NAME)
+  if (!documentFile) {
+    throw new Error('Not an animator project archive (missing project.json)')
+  }
+
+  const archiveDocument = JSON.parse(await documentFile.async('string')) as ProjectArchiveDocument
+  if (archiveDocument.format !== ARCHIVE_FORMAT) {
+    throw new Error('Unrecognized project archive format')
+  }
+  if (archiveDocument.version > ARCHIVE_VERSION) {
+    throw new Error(`Project archive version ${archiveDocument.version} is newer than this app supports`)
+  }
+
+  const resolvedAssets = new Map<string, AssetId>()
+  const readBinary = async (path: string) => {
+    const existing = resolvedAssets.get(path)
+    if (existing) return existing
+    const entry = zip.file(path)
+    if (!entry) {
+      throw new Error(`Project archive is missing ${path}`)
+    }
+    const buffer = await entry.async('arraybuffer')
+    const assetId = await putAsset(new Blob([buffer], { type: mimeForPath(path) }))
+    resolvedAssets.set(path, assetId)
+    return assetId
+  }
+
+  const frames: FrameData[] = []
+  for (const archivedFrame of archiveDocument.project.frames) {
+    const { image, outline, composited, compositedUrl, layers, ...rest } = archivedFrame
+    const restoredLayers: DrawingLayer[] = []
+    for (const archivedLayer of layers) {
+      const { image: layerImage, ...layerRest } = archivedLayer
+      restoredLayers.push(
+        layerImage ? { ...layerRest, imageId: await readBinary(layerImage) } : layerRest,
+      )
+    }
+    frames.push({
+      ...rest,
+      imageId: await readBinary(image),
+      outlineId: outline ? await readBinary(outline) : undefined,
+      compositedId: composited
+        ? await readBinary(composited)
+        : compositedUrl
+          ? await putAsset(await (await fetch(compositedUrl)).blob())
+          : undefined,
+      layers: restoredLayers,
+    })
+  }
+
+  if (!frames.length) {
+    throw new Error('Project archive contains no frames')
+  }
+
+  // Imports always land as a new library entry, even when the source project exists locally
+  const { audio, ...projectRest } = archiveDocument.project
+  return {
+    ...projectRest,
+    id: uuidv4(),
+    frames,
+    audioId: audio ? await readBinary(audio) : undefined,
+    updatedAt: Date.now(),
+  }
+}
@@ -0,0 +1,125 @@
+import { delMany, get, getMany, keys, set } from 'idb-keyval'
+import type { AnimatorProject, AssetId, FrameData } from '../types'
+
+// Binary assets (frame images, layer images, outlines, audio) are stored once per content hash
+const ASSET_KEY_PREFIX = 'animator-asset:'
+const assetKey = (id: AssetId) => `${ASSET_KEY_PREFIX}${id}`
+
+// Blobs read from IndexedDB are disk-backed, so keeping them around is cheap; object URLs are
+// created on first use and revoked once nothing in the open project or its history needs them
+const blobs = new Map<AssetId, Blob>()
+const objectUrls = new Map<AssetId, string>()
+// Freshly stored assets survive releases until a project references them, so an import or
+// Auto Trace run is not undone by a release that happens before its result is committed
+const unclaimed = new Set<AssetId>()
+
+const hashBlob = async (blob: Blob): Promise<AssetId> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/** Stores a blob and returns its content-hash id; identical content is only written once. */
+export const putAsset = async (blob: Blob): Promise<AssetId> => {
+  const id = await hashBlob(blob)
+  if (!blobs.has(id)) {
+    blobs.set(id, blob)
+    unclaimed.add(id)
+    if (!(await get(assetKey(id)))) {
+      await set(assetKey(id), blob)
+    }
+  }
+  return id
+}
+
+/** Reads any of `ids` not yet in memory from IndexedDB so getAssetUrl can resolve them synchronously. */
+export const loadAssets = async (ids: Iterable<AssetId>) => {
+  const missing = Array.from(new Set(ids)).filter((id) => !blobs.has(id))
+  if (!missing.length) return
+  const stored = await getMany<Blob | undefined>(missing.map(assetKey))
+  stored.forEach((blob, index) => {
+    if (blob) {
+      blobs.set(missing[index], blob)
+    } else {
+      console.error(`Missing asset ${missing[index]}`)
+    }
+  })
+}
+
+export const getAssetBlob = async (id: AssetId): Promise<Blob> => {
+  await loadAssets([id])
+  const blob = blobs.get(id)
+  if (!blob) {
+    throw new Error(`Asset ${id} is not available`)
+  }
+  return blob
+}
+
+/** Object URL for a loaded asset; returns an empty string for unknown ids so image hooks stay idle. */
+export const getAssetUrl = (id?: AssetId): string => {
+  if (!id) return ''
+  const existing = objectUrls.get(id)
+  if (existing) return existing
+  const blob = blobs.get(id)
+  if (!blob) return ''
+  const url = URL.createObjectURL(blob)
+  objectUrls.set(id, url)
+  return url
+}
+
+const frameAssetCache = new WeakMap<FrameData, AssetId[]>()
+
+const collectFrameAssetIds = (frame: FrameData): AssetId[] => {
+  const cached = frameAssetCache.get(frame)
+  if (cached) return cached
+  const ids: AssetId[] = []
+  if (frame.imageId) ids.push(frame.imageId)
+  if (frame.outlineId) ids.push(frame.outlineId)
+  if (frame.compositedId) ids.push(frame.compositedId)
+  frame.layers.forEach((layer) => {
+    if (layer.imageId) ids.push(layer.imageId)
+  })
+  frameAssetCache.set(frame, ids)
+  return ids
+}
+
+export const collectProjectAssetIds = (projects: Iterable<AnimatorProject>): Set<AssetId> => {
+  const ids = new Set<AssetId>()
+  for (const project of projects) {
+    if (project.audioId) ids.add(project.audioId)
+    project.frames.forEach((frame) => collectFrameAssetIds(frame).forEach((id) => ids.add(id)))
+  }
+  return ids
+}
+
+/** Revokes object URLs and drops in-memory blobs for every asset outside `keep`. */
+export const releaseAssets = (keep: Set<AssetId>) => {
+  for (const id of keep) {
+    unclaimed.delete(id)
+  }
+  for (const [id, url] of objectUrls) {
+    if (!keep.has(id) && !unclaimed.has(id)) {
+      URL.revokeObjectURL(url)
+      objectUrls.delete(id)
+    }
+  }
+  for (const id of blobs.keys()) {
+    if (!keep.has(id) && !unclaimed.has(id)) {
+      blobs.delete(id)
+    }
+  }
+}
+
+/**
+ * Deletes stored assets outside `referenced` (the ids saved projects point at). Assets still in
+ * memory are kept: the open project's undo history or an uncommitted import may need them.
+ */
+export const deleteUnusedAssets = async (referenced: Set<AssetId>) => {
+  const stale = (await keys()).filter((key): key is string => {
+    if (typeof key !== 'string' || !key.startsWith(ASSET_KEY_PREFIX)) return false
+    const id = key.slice(ASSET_KEY_PREFIX.length)
+    return !referenced.has(id) && !blobs.has(id)
+  })
+  if (stale.length) {
+    await delMany(stale)
+  }
+}
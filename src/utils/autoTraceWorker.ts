@@ -0,0 +1,128 @@
+import type { AssetId, DrawingStroke, TraceSettings } from '../types'
+import { getAssetBlob } from './assets'
+import { segmentPerson } from './segmentation'
+
+export interface TraceSource {
+  imageId: AssetId
+  image: Blob
+  personProbabilities: Float32Array | null
+}
+
+export interface AutoTraceWorkerRequest {
+  id: number
+  source: TraceSource
+  neighbours: TraceSource[]  // Adjacent frames for temporal smoothing; empty when it is off
+  settings: TraceSettings
+  preview: boolean  // Flatten stroke output to an image as well, for the settings preview
+}
+
+export interface AutoTraceWorkerResponse {
+  id: number
+  outline?: Blob
+  strokes?: DrawingStroke[]
+  error?: string
+}
+
+export type TraceResult = Pick<AutoTraceWorkerResponse, 'outline' | 'strokes'>
+
+interface PendingRequest {
+  resolve: (result: TraceResult) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let requestCounter = 0
+const pending = new Map<number, PendingRequest>()
+
+const rejectPending = (error: Error) => {
+  pending.forEach(({ reject }) => reject(error))
+  pending.clear()
+}
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/autoTrace.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<AutoTraceWorkerResponse>) => {
+      const { id, error, ...result } = event.data
+      const request = pending.get(id)
+      if (!request) return
+      pending.delete(id)
+      if (error) {
+        request.reject(new Error(error))
+      } else {
+        request.resolve(result)
+      }
+    }
+    worker.onerror = (event) => {
+      rejectPending(new Error(event.message || 'Auto Trace worker failed'))
+      worker?.terminate()
+      worker = null
+    }
+  }
+  return worker
+}
+
+// A run visits each frame as itself and as its neighbours' neighbour, so recent masks are kept
+const SEGMENTATION_CACHE_SIZE = 4
+const segmentationCache = new Map<AssetId, Promise<Float32Array>>()
+
+// MediaPipe loads its wasm through the DOM, so segmentation stays here and only the mask is sent over
+const segmentImage = (imageId: AssetId, image: Blob) => {
+  const cached = segmentationCache.get(imageId)
+  if (cached) return cached
+  const result = createImageBitmap(image).then((bitmap) => {
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Unable to derive 2d context for person segmentation')
+    }
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    return segmentPerson(canvas)
+  })
+  result.catch(() => segmentationCache.delete(imageId))
+  segmentationCache.set(imageId, result)
+  if (segmentationCache.size > SEGMENTATION_CACHE_SIZE) {
+    segmentationCache.delete(segmentationCache.keys().next().value!)
+  }
+  return result
+}
+
+const loadTraceSource = async (imageId: AssetId, settings: TraceSettings): Promise<TraceSource> => {
+  const image = await getAssetBlob(imageId)
+  const personProbabilities = settings.mode === 'person' ? await segmentImage(imageId, image) : null
+  return { imageId, image, personProbabilities }
+}
+
+/**
+ * Traces one image off the main thread; resolves with an outline image or strokes per `settings.output`.
+ * `neighbourIds` are the source images of the adjacent frames, blended in by temporal smoothing.
+ */
+export const traceImage = async (
+  imageId: AssetId,
+  settings: TraceSettings,
+  { preview = false, neighbourIds = [] }: { preview?: boolean; neighbourIds?: AssetId[] } = {},
+): Promise<TraceResult> => {
+  const source = await loadTraceSource(imageId, settings)
+  const neighbours =
+    settings.temporalSmoothing > 0
+      ? await Promise.all(neighbourIds.map((neighbourId) => loadTraceSource(neighbourId, settings)))
+      : []
+  const id = ++requestCounter
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    const request: AutoTraceWorkerRequest = { id, source, neighbours, settings, preview }
+    getWorker().postMessage(request)
+  })
+}
+
+export const isTraceCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+/** Stops the frame being traced right away; the next request starts a fresh worker. */
+export const cancelTracing = () => {
+  worker?.terminate()
+  worker = null
+  rejectPending(new DOMException('Auto Trace cancelled', 'AbortError'))
+}
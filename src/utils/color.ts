@@ -9,7 +9,7 @@ const normalizeHex = (hex: string): string => {
   return stripped.padEnd(6, '0').slice(0, 6)
 }
 
-const hexToRgb = (hex: string) => {
+export const hexToRgb = (hex: string) => {
   const normalized = normalizeHex(hex)
   const r = parseInt(normalized.slice(0, 2), 16)
   const g = parseInt(normalized.slice(2, 4), 16)
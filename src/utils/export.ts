@@ -0,0 +1,168 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import JSZip from 'jszip'
+import type { FrameData, GifExportOptions } from '../types'
+import { getAssetUrl } from './assets'
+import { canvasToBlob, drawLayerOnContext, loadImageElement } from './imageHelpers'
+import { getFrameDuration, getTotalTicks } from './timing'
+
+export const DEFAULT_GIF_OPTIONS: GifExportOptions = {
+  loop: 0,
+  dither: true,
+  maxWidth: 480,
+}
+
+export const renderExportFrame = async (
+  frame: FrameData,
+  layerSettings: Record<string, boolean>,
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas')
+  canvas.width = frame.width || 720
+  canvas.height = frame.height || 405
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('2d context unavailable')
+  }
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  // Layers are drawn in order (first layer is bottom, last is top)
+  for (const layer of frame.layers) {
+    const isVisible = layerSettings[layer.name] ?? layer.visible
+    if (!isVisible) continue
+
+    // Drawn as the stage shows them; raster Auto Trace layers are already lines on white paper
+    if (layer.imageId) {
+      ctx.drawImage(await loadImageElement(getAssetUrl(layer.imageId)), 0, 0)
+    }
+
+    drawLayerOnContext(ctx, layer)
+  }
+
+  return canvas
+}
+
+export const canvasToPngBytes = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  const blob = await canvasToBlob(canvas)
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+export const readOutputBlob = async (
+  ffmpegInstance: FFmpeg,
+  fileName: string,
+  mimeType: string,
+): Promise<Blob> => {
+  const data = (await ffmpegInstance.readFile(fileName)) as Uint8Array
+  if (data.length === 0) {
+    throw new Error(`FFmpeg produced an empty ${fileName}`)
+  }
+  return new Blob([new Uint8Array(data)], { type: mimeType })
+}
+
+export const CONCAT_LIST_NAME = 'frames.txt'
+
+export const concatInputArgs = (listName: string = CONCAT_LIST_NAME) => [
+  '-f', 'concat',
+  '-safe', '0',
+  '-i', listName,
+]
+
+// ffconcat script giving each rendered frame its hold length in seconds
+export const buildConcatList = (fileNames: string[], durations: number[], fps: number): string => {
+  const lines = ['ffconcat version 1.0']
+  fileNames.forEach((fileName, index) => {
+    lines.push(`file '${fileName}'`)
+    lines.push(`duration ${((durations[index] ?? 1) / fps).toFixed(6)}`)
+  })
+  // The demuxer ignores the final duration unless the last file is listed again
+  if (fileNames.length) {
+    lines.push(`file '${fileNames[fileNames.length - 1]}'`)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+export const buildGifArgs = (
+  inputArgs: string[],
+  outputName: string,
+  fps: number,
+  options: GifExportOptions,
+): string[] => {
+  const scale = options.maxWidth
+    ? `scale='min(${options.maxWidth},iw)':-1:flags=lanczos`
+    : 'scale=iw:-1:flags=lanczos'
+  const dither = options.dither ? 'sierra2_4a' : 'none'
+  // Build a single palette for the whole clip, then map every frame onto it
+  const filter = [
+    `fps=${fps},${scale},split[frames][paletteSource]`,
+    '[paletteSource]palettegen=stats_mode=diff[palette]',
+    `[frames][palette]paletteuse=dither=${dither}:diff_mode=rectangle`,
+  ].join(';')
+
+  return [
+    ...inputArgs,
+    '-filter_complex', filter,
+    '-loop', String(options.loop),
+    outputName,
+  ]
+}
+
+export interface PngSequenceManifest {
+  name: string
+  fps: number
+  width: number
+  height: number
+  frameCount: number
+  drawingCount: number
+  layers: string[]
+  files: string[]
+  exportedAt: string
+}
+
+export const sequenceFileName = (index: number, total: number) =>
+  `frame_${String(index + 1).padStart(Math.max(4, String(total).length), '0')}.png`
+
+export const createPngSequenceZip = async (
+  frames: FrameData[],
+  layerSettings: Record<string, boolean>,
+  { name, fps }: { name: string; fps: number },
+  onProgress?: (current: number, total: number) => void,
+): Promise<Blob> => {
+  const zip = new JSZip()
+  const folder = zip.folder('frames') ?? zip
+  const files: string[] = []
+  const layers = new Set<string>()
+  const totalTicks = getTotalTicks(frames)
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i]
+    onProgress?.(i + 1, frames.length)
+    frame.layers.forEach((layer) => {
+      if (layerSettings[layer.name] ?? layer.visible) {
+        layers.add(layer.name)
+      }
+    })
+    const canvas = await renderExportFrame(frame, layerSettings)
+    const png = await canvasToBlob(canvas)
+    // Held drawings repeat so the sequence plays back at the project frame rate
+    for (let hold = 0; hold < getFrameDuration(frame); hold++) {
+      const fileName = sequenceFileName(files.length, totalTicks)
+      folder.file(fileName, png)
+      files.push(`frames/${fileName}`)
+    }
+  }
+
+  const manifest: PngSequenceManifest = {
+    name,
+    fps,
+    width: frames[0]?.width || 720,
+    height: frames[0]?.height || 405,
+    frameCount: files.length,
+    drawingCount: frames.length,
+    layers: Array.from(layers),
+    files,
+    exportedAt: new Date().toISOString(),
+  }
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2))
+
+  return zip.generateAsync({ type: 'blob' })
+}
@@ -0,0 +1,157 @@
+import type { LayerFill } from '../types'
+
+// Largest difference from the clicked pixel (per channel, 0-255) that still belongs to its region
+const COLOR_TOLERANCE = 48
+
+export const MAX_GAP_CLOSING = 12
+
+// Pixels that stop the fill: anything that differs from the clicked colour. Colour only counts as
+// far as both pixels are opaque, so faint anti-aliasing around transparent line art does not block
+const buildBarrier = ({ data, width, height }: ImageData, seed: number) => {
+  const barrier = new Uint8Array(width * height)
+  const [r, g, b, a] = [data[seed * 4], data[seed * 4 + 1], data[seed * 4 + 2], data[seed * 4 + 3]]
+  for (let pixel = 0; pixel < barrier.length; pixel += 1) {
+    const offset = pixel * 4
+    const alpha = data[offset + 3]
+    const colorWeight = Math.min(alpha, a) / 255
+    const colorDifference = Math.max(
+      Math.abs(data[offset] - r),
+      Math.abs(data[offset + 1] - g),
+      Math.abs(data[offset + 2] - b),
+    )
+    if (Math.max(Math.abs(alpha - a), colorDifference * colorWeight) > COLOR_TOLERANCE) barrier[pixel] = 1
+  }
+  return barrier
+}
+
+// Square dilation in two separable passes, using running counts so any radius costs the same
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number) => {
+  if (radius <= 0) return mask
+  const pass = (source: Uint8Array, length: number, lines: number, index: (line: number, i: number) => number) => {
+    const target = new Uint8Array(source.length)
+    for (let line = 0; line < lines; line += 1) {
+      let count = 0
+      for (let i = 0; i < Math.min(radius, length); i += 1) count += source[index(line, i)]
+      for (let i = 0; i < length; i += 1) {
+        if (i + radius < length) count += source[index(line, i + radius)]
+        if (i - radius - 1 >= 0) count -= source[index(line, i - radius - 1)]
+        target[index(line, i)] = count > 0 ? 1 : 0
+      }
+    }
+    return target
+  }
+  const horizontal = pass(mask, width, height, (y, x) => y * width + x)
+  return pass(horizontal, height, width, (x, y) => y * width + x)
+}
+
+// Scanline fill of the 4-connected open area around `seed`
+const floodRegion = (blocked: Uint8Array, width: number, height: number, seed: number) => {
+  const region = new Uint8Array(blocked.length)
+  const stack = [seed]
+  while (stack.length) {
+    const pixel = stack.pop()!
+    const y = Math.floor(pixel / width)
+    let x = pixel - y * width
+    while (x > 0 && !blocked[y * width + x - 1] && !region[y * width + x - 1]) x -= 1
+    let spanAbove = false
+    let spanBelow = false
+    for (; x < width && !blocked[y * width + x] && !region[y * width + x]; x += 1) {
+      region[y * width + x] = 1
+      const above = (y - 1) * width + x
+      const below = (y + 1) * width + x
+      const openAbove = y > 0 && !blocked[above] && !region[above]
+      const openBelow = y < height - 1 && !blocked[below] && !region[below]
+      if (openAbove && !spanAbove) stack.push(above)
+      if (openBelow && !spanBelow) stack.push(below)
+      spanAbove = openAbove
+      spanBelow = openBelow
+    }
+  }
+  return region
+}
+
+// Grows the region one pixel at a time (8-connected), never into `barrier` pixels when given, so
+// it follows the lines back out without leaking past them
+const growRegion = (region: Uint8Array, width: number, height: number, steps: number, barrier?: Uint8Array) => {
+  let current = region
+  for (let step = 0; step < steps; step += 1) {
+    current = dilate(current, width, height, 1)
+    if (barrier) current = current.map((value, pixel) => value & (1 - barrier[pixel]))
+  }
+  return current
+}
+
+// Nearest pixel to the click that the closed-up line art leaves open, when the click itself was
+// close enough to a line to be swallowed by gap closing
+const findOpenSeed = (blocked: Uint8Array, width: number, height: number, x: number, y: number, reach: number) => {
+  let best: number | null = null
+  let bestDistance = Infinity
+  for (let dy = -reach; dy <= reach; dy += 1) {
+    for (let dx = -reach; dx <= reach; dx += 1) {
+      const nx = x + dx
+      const ny = y + dy
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height || blocked[ny * width + nx]) continue
+      const distance = dx * dx + dy * dy
+      if (distance < bestDistance) {
+        best = ny * width + nx
+        bestDistance = distance
+      }
+    }
+  }
+  return best
+}
+
+const toRuns = (region: Uint8Array, width: number, height: number) => {
+  const runs: number[] = []
+  for (let y = 0; y < height; y += 1) {
+    let start = -1
+    for (let x = 0; x <= width; x += 1) {
+      const inside = x < width && region[y * width + x] === 1
+      if (inside && start < 0) start = x
+      if (!inside && start >= 0) {
+        runs.push(y, start, x)
+        start = -1
+      }
+    }
+  }
+  return runs
+}
+
+/**
+ * Pixel runs of the region around (`x`, `y`) in `image`, bounded by anything that differs from the
+ * clicked colour. Gaps up to about twice `gapClosing` px are bridged by thickening the lines before
+ * filling and growing the result back afterwards, plus one pixel so the fill tucks under
+ * anti-aliased edges. Null when the click lands on a line.
+ */
+export const findFillRegion = (image: ImageData, x: number, y: number, gapClosing: number): number[] | null => {
+  const { width, height } = image
+  const px = Math.floor(x)
+  const py = Math.floor(y)
+  if (px < 0 || py < 0 || px >= width || py >= height) return null
+  const barrier = buildBarrier(image, py * width + px)
+  if (barrier[py * width + px]) return null
+
+  const radius = Math.max(0, Math.min(MAX_GAP_CLOSING, Math.round(gapClosing)))
+  const blocked = dilate(barrier, width, height, radius)
+  const seed = blocked[py * width + px] ? findOpenSeed(blocked, width, height, px, py, radius + 1) : py * width + px
+  if (seed === null) return null
+
+  const region = growRegion(growRegion(floodRegion(blocked, width, height, seed), width, height, radius, barrier), width, height, 1)
+  return toRuns(region, width, height)
+}
+
+export const isPointInFill = (fill: LayerFill, x: number, y: number) => {
+  const px = Math.floor(x)
+  const py = Math.floor(y)
+  for (let i = 0; i < fill.runs.length; i += 3) {
+    if (fill.runs[i] === py && px >= fill.runs[i + 1] && px < fill.runs[i + 2]) return true
+  }
+  return false
+}
+
+/** Adds the fill's runs to the current path as rectangles; works on canvas and Konva contexts alike. */
+export const traceFillPath = (ctx: { rect: (x: number, y: number, width: number, height: number) => void }, fill: LayerFill) => {
+  for (let i = 0; i < fill.runs.length; i += 3) {
+    ctx.rect(fill.runs[i + 1], fill.runs[i], fill.runs[i + 2] - fill.runs[i + 1], 1)
+  }
+}
@@ -1,17 +1,25 @@
-import type { DrawingLayer, DrawingStroke, FrameData } from '../types'
+import type { DrawingLayer, DrawingStroke, FrameData, LayerFill } from '../types'
+import { getAssetUrl } from './assets'
+import { traceFillPath } from './floodFill'
+import { getVariableStrokeOutline, hasVariableWidth } from './strokeOutline'
 
-export const blobToDataUrl = (blob: Blob): Promise<string> =>
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type = 'image/png',
+  quality?: number,
+): Promise<Blob> =>
   new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result)
-      } else {
-        reject(new Error('Failed to convert blob to data URL'))
-      }
-    }
-    reader.onerror = reject
-    reader.readAsDataURL(blob)
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error('Failed to encode canvas'))
+        }
+      },
+      type,
+      quality,
+    )
   })
 
 export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
@@ -23,7 +31,7 @@ export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
     img.src = src
   })
 
-const drawStrokeOnContext = (
+export const drawStrokeOnContext = (
   ctx: CanvasRenderingContext2D,
   stroke: DrawingStroke,
 ) => {
@@ -31,12 +39,27 @@ const drawStrokeOnContext = (
   ctx.lineJoin = 'round'
   ctx.lineCap = 'round'
   ctx.lineWidth = stroke.size
+  ctx.globalAlpha = stroke.opacity ?? 1
   if (stroke.mode === 'eraser') {
     ctx.globalCompositeOperation = 'destination-out'
     ctx.strokeStyle = 'rgba(0,0,0,1)'
+    ctx.fillStyle = 'rgba(0,0,0,1)'
   } else {
     ctx.globalCompositeOperation = 'source-over'
     ctx.strokeStyle = stroke.color
+    ctx.fillStyle = stroke.color
+  }
+
+  if (hasVariableWidth(stroke)) {
+    const outline = getVariableStrokeOutline(stroke, stroke.size)
+    ctx.beginPath()
+    for (let i = 0; i < outline.length; i += 2) {
+      ctx.lineTo(outline[i], outline[i + 1])
+    }
+    ctx.closePath()
+    ctx.fill()
+    ctx.restore()
+    return
   }
 
   ctx.beginPath()
@@ -51,7 +74,48 @@ const drawStrokeOnContext = (
   ctx.restore()
 }
 
-export const renderFrameComposite = async (frame: FrameData): Promise<string> => {
+export const drawFillOnContext = (ctx: CanvasRenderingContext2D, fill: LayerFill) => {
+  ctx.save()
+  ctx.fillStyle = fill.color
+  ctx.beginPath()
+  traceFillPath(ctx, fill)
+  ctx.fill()
+  ctx.restore()
+}
+
+/** A layer's fills sit underneath its strokes so the line art stays on top. */
+export const drawLayerOnContext = (ctx: CanvasRenderingContext2D, layer: DrawingLayer) => {
+  layer.fills?.forEach((fill) => drawFillOnContext(ctx, fill))
+  layer.strokes.forEach((stroke) => drawStrokeOnContext(ctx, stroke))
+}
+
+/**
+ * Line art the paint bucket looks at: strokes and Auto Trace images of the visible layers, or
+ * everything on the layer named `referenceLayer`. Photos and video frames (the frame's own picture
+ * and other image layers) and existing fills are left out, so they do not break regions up and
+ * filled regions can be refilled; pick such a layer as the reference to fill from it anyway.
+ */
+export const renderFillReference = async (frame: FrameData, referenceLayer: string | null): Promise<ImageData> => {
+  const canvas = document.createElement('canvas')
+  canvas.width = frame.width
+  canvas.height = frame.height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('2d context unavailable')
+  }
+
+  for (const layer of frame.layers) {
+    if (referenceLayer === null ? !layer.visible : layer.name !== referenceLayer) continue
+    if (layer.imageId && (referenceLayer !== null || layer.name.startsWith('Auto Trace'))) {
+      ctx.drawImage(await loadImageElement(getAssetUrl(layer.imageId)), 0, 0)
+    }
+    layer.strokes.forEach((stroke) => drawStrokeOnContext(ctx, stroke))
+  }
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+export const renderFrameComposite = async (frame: FrameData): Promise<Blob> => {
   const canvas = document.createElement('canvas')
   canvas.width = frame.width
   canvas.height = frame.height
@@ -60,11 +124,11 @@ export const renderFrameComposite = async (frame: FrameData): Promise<string> =>
     throw new Error('2d context unavailable')
   }
 
-  const base = await loadImageElement(frame.imageUrl)
+  const base = await loadImageElement(getAssetUrl(frame.imageId))
   ctx.drawImage(base, 0, 0)
 
-  if (frame.outlineUrl) {
-    const outlineImg = await loadImageElement(frame.outlineUrl)
+  if (frame.outlineId) {
+    const outlineImg = await loadImageElement(getAssetUrl(frame.outlineId))
     ctx.globalAlpha = 0.9
     ctx.drawImage(outlineImg, 0, 0)
     ctx.globalAlpha = 1
@@ -72,9 +136,33 @@ export const renderFrameComposite = async (frame: FrameData): Promise<string> =>
 
   frame.layers
     .filter((layer) => layer.visible)
-    .forEach((layer: DrawingLayer) => {
-      layer.strokes.forEach((stroke) => drawStrokeOnContext(ctx, stroke))
-    })
+    .forEach((layer: DrawingLayer) => drawLayerOnContext(ctx, layer))
+
+  return canvasToBlob(canvas)
+}
+
+export const createFrameThumbnail = async (
+  frame: FrameData,
+  maxWidth = 240,
+): Promise<string> => {
+  const scale = Math.min(1, maxWidth / (frame.width || 720))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round((frame.width || 720) * scale)
+  canvas.height = Math.round((frame.height || 405) * scale)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('2d context unavailable')
+  }
+
+  ctx.drawImage(await loadImageElement(getAssetUrl(frame.imageId)), 0, 0, canvas.width, canvas.height)
+  ctx.scale(scale, scale)
+  for (const layer of frame.layers) {
+    if (!layer.visible) continue
+    if (layer.imageId) {
+      ctx.drawImage(await loadImageElement(getAssetUrl(layer.imageId)), 0, 0)
+    }
+    drawLayerOnContext(ctx, layer)
+  }
 
-  return canvas.toDataURL('image/png')
+  return canvas.toDataURL('image/jpeg', 0.7)
 }
@@ -1,8 +1,19 @@
 import { v4 as uuidv4 } from 'uuid'
-import { blobToDataUrl, loadImageElement } from './imageHelpers'
+import { canvasToBlob } from './imageHelpers'
 import type { FFmpeg } from '@ffmpeg/ffmpeg'
-import type { FrameData } from '../types'
+import type { AssetId, FrameData } from '../types'
 import { createLayer } from './project'
+import { putAsset } from './assets'
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+}
+
+const getImageMimeType = (name: string) => IMAGE_MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'image/png'
 
 export const composeFrames = async (
   fileNames: string[],
@@ -14,20 +25,21 @@ export const composeFrames = async (
     const frameFile = (await ffmpegInstance.readFile(name, 'binary')) as Uint8Array
     const frameCopy = new Uint8Array(frameFile.length)
     frameCopy.set(frameFile)
-    const blob = new Blob([frameCopy], { type: 'image/png' })
-    const imageUrl = await blobToDataUrl(blob)
-    const image = await loadImageElement(imageUrl)
+    const blob = new Blob([frameCopy], { type: getImageMimeType(name) })
+    const imageId = await putAsset(blob)
+    const image = await createImageBitmap(blob)
     const baseLayer = createLayer('Layer 1')
 
     frames.push({
       id: uuidv4(),
       frameNumber: index,
-      imageUrl,
+      imageId,
       layers: [baseLayer],
       activeLayerId: baseLayer.id,
       width: image.width,
       height: image.height,
     })
+    image.close()
 
     await ffmpegInstance.deleteFile(name)
   }
@@ -35,11 +47,35 @@ export const composeFrames = async (
   return frames
 }
 
-export const createBackgroundImage = (
+/**
+ * Moves each imported picture onto its own image layer and gives the frame a plain background in its
+ * place, so hiding the layer shows the project color. Frames of one size share a background.
+ */
+export const moveFrameImagesToLayer = async (frames: FrameData[], layerName: string, backgroundColor: string) => {
+  const backgrounds = new Map<string, AssetId>()
+  for (const frame of frames) {
+    const imageLayer = {
+      ...createLayer(layerName),
+      imageId: frame.imageId,
+      visible: true,
+    }
+    frame.layers = [imageLayer, ...frame.layers]
+    const sizeKey = `${frame.width}x${frame.height}`
+    let backgroundId = backgrounds.get(sizeKey)
+    if (!backgroundId) {
+      backgroundId = await createBackgroundImage(backgroundColor, frame.width, frame.height)
+      backgrounds.set(sizeKey, backgroundId)
+    }
+    frame.imageId = backgroundId
+  }
+}
+
+// Identical backgrounds hash to the same asset, so a whole video import shares one image
+export const createBackgroundImage = async (
   backgroundColor: string = '#0f172a',
   width: number = 720,
   height: number = 405
-): string => {
+): Promise<AssetId> => {
   const canvas = document.createElement('canvas')
   canvas.width = width
   canvas.height = height
@@ -61,10 +97,10 @@ export const createBackgroundImage = (
     ctx.fillRect(0, 0, canvas.width, canvas.height)
   }
 
-  return canvas.toDataURL('image/png')
+  return putAsset(await canvasToBlob(canvas))
 }
 
-export const createBlankCanvasFrame = (backgroundColor: string = '#0f172a') => {
+export const createBlankCanvasFrame = async (backgroundColor: string = '#0f172a') => {
   const canvas = document.createElement('canvas')
   canvas.width = 720
   canvas.height = 405
@@ -86,13 +122,13 @@ export const createBlankCanvasFrame = (backgroundColor: string = '#0f172a') => {
     ctx.fillRect(0, 0, canvas.width, canvas.height)
   }
 
-  const imageUrl = canvas.toDataURL('image/png')
+  const imageId = await putAsset(await canvasToBlob(canvas))
   const baseLayer = createLayer('Layer 1')
 
   const frame: FrameData = {
     id: uuidv4(),
     frameNumber: 0,
-    imageUrl,
+    imageId,
     layers: [baseLayer],
     activeLayerId: baseLayer.id,
     width: canvas.width,
@@ -0,0 +1,69 @@
+import type { FrameData, OnionSkinSettings } from '../types'
+
+export const MAX_ONION_RANGE = 5
+
+// One frame back at 40%, like the single-frame onion skin this replaced, but tinted
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  enabled: true,
+  before: 1,
+  after: 0,
+  pastColor: '#ff3b6b',
+  futureColor: '#2e9bff',
+  opacity: 0.4,
+  falloff: 0.5,
+  outlineOnly: false,
+  includeImages: false,
+}
+
+export interface OnionFrame {
+  frame: FrameData
+  offset: number  // Negative for earlier frames, positive for later ones
+  tint: string
+  opacity: number
+}
+
+const clampRange = (value: number) => Math.min(MAX_ONION_RANGE, Math.max(0, Math.round(value) || 0))
+
+const clampUnit = (value: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback
+
+/** Merges stored settings over the defaults and clamps them, so older or hand-edited values still work. */
+export const normalizeOnionSkin = (settings?: Partial<OnionSkinSettings> | null): OnionSkinSettings => {
+  const merged = { ...DEFAULT_ONION_SKIN, ...settings }
+  return {
+    ...merged,
+    before: clampRange(merged.before),
+    after: clampRange(merged.after),
+    opacity: clampUnit(merged.opacity, DEFAULT_ONION_SKIN.opacity),
+    falloff: clampUnit(merged.falloff, DEFAULT_ONION_SKIN.falloff),
+  }
+}
+
+export const getOnionOpacity = (settings: OnionSkinSettings, offset: number) =>
+  settings.opacity * (1 - settings.falloff) ** (Math.abs(offset) - 1)
+
+/**
+ * Frames to ghost around `activeIndex`, farthest first so the nearest ones are drawn on top. Empty
+ * when onion skinning is off or no frame is active.
+ */
+export const getOnionFrames = (
+  frames: FrameData[],
+  activeIndex: number,
+  settings: OnionSkinSettings,
+): OnionFrame[] => {
+  if (!settings.enabled || activeIndex < 0) return []
+  const onionFrames: OnionFrame[] = []
+  const distance = Math.max(settings.before, settings.after)
+  for (let step = distance; step >= 1; step -= 1) {
+    const sides = [
+      { offset: -step, shown: step <= settings.before, tint: settings.pastColor },
+      { offset: step, shown: step <= settings.after, tint: settings.futureColor },
+    ]
+    sides.forEach(({ offset, shown, tint }) => {
+      const frame = frames[activeIndex + offset]
+      if (!shown || !frame) return
+      onionFrames.push({ frame, offset, tint, opacity: getOnionOpacity(settings, offset) })
+    })
+  }
+  return onionFrames
+}
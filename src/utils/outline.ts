@@ -1,6 +1,9 @@
 import * as tf from '@tensorflow/tfjs'
 import type { Tensor2D, Tensor3D, Tensor4D } from '@tensorflow/tfjs'
-import { loadImageElement } from './imageHelpers'
+import { v4 as uuidv4 } from 'uuid'
+import type { DrawingStroke, TraceSettings } from '../types'
+import type { EdgeField } from './temporalSmoothing'
+import { vectorizeLines } from './vectorize'
 
 let tfReady: Promise<void> | null = null
 
@@ -11,99 +14,288 @@ const ensureTfReady = () => {
   return tfReady
 }
 
-export const generateOutlineMask = async (imageUrl: string): Promise<string> => {
-  await ensureTfReady()
-  const image = await loadImageElement(imageUrl)
-
-  const canvas = document.createElement('canvas')
-  canvas.width = image.width
-  canvas.height = image.height
-  const ctx = canvas.getContext('2d')
-  if (!ctx) {
-    throw new Error('Unable to derive 2d context for outline generation')
+interface EdgeGradients {
+  magnitude: Tensor2D  // Normalised to 0-1 against the strongest edge
+  gradX: Tensor2D
+  gradY: Tensor2D
+}
+
+const gaussianBlur = (input: Tensor4D, radius: number): Tensor4D => {
+  if (radius <= 0) return input
+  const sigma = Math.max(radius / 2, 0.5)
+  const weights = Array.from({ length: radius * 2 + 1 }, (_, index) =>
+    Math.exp(-((index - radius) ** 2) / (2 * sigma * sigma)),
+  )
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  const normalized = weights.map((weight) => weight / total)
+  // Separable: one horizontal and one vertical pass instead of a (2r+1)² kernel
+  const horizontal = tf.tensor4d(normalized, [1, normalized.length, 1, 1])
+  const vertical = tf.tensor4d(normalized, [normalized.length, 1, 1, 1])
+  return tf.conv2d(tf.conv2d(input, horizontal, 1, 'same'), vertical, 1, 'same') as Tensor4D
+}
+
+// Sobel gradients of a single-channel [1, h, w, 1] image
+const detectEdges = (input: Tensor4D, blurRadius: number): EdgeGradients => {
+  const sobelXKernel = tf.tensor4d(
+    [
+      -1, 0, 1,
+      -2, 0, 2,
+      -1, 0, 1,
+    ],
+    [3, 3, 1, 1],
+  )
+  const sobelYKernel = tf.tensor4d(
+    [
+      -1, -2, -1,
+       0,  0,  0,
+       1,  2,  1,
+    ],
+    [3, 3, 1, 1],
+  )
+
+  const blurred = gaussianBlur(input, blurRadius)
+  const gradX = (tf.conv2d(blurred, sobelXKernel, 1, 'same') as Tensor4D).squeeze([0, 3]) as Tensor2D
+  const gradY = (tf.conv2d(blurred, sobelYKernel, 1, 'same') as Tensor4D).squeeze([0, 3]) as Tensor2D
+  const magnitude = tf.sqrt(tf.add(tf.square(gradX), tf.square(gradY))) as Tensor2D
+  const normalized = tf.div(magnitude, tf.add(tf.max(magnitude), tf.scalar(1e-5))) as Tensor2D
+  return { magnitude: normalized, gradX, gradY }
+}
+
+// Keeps only pixels that are the strongest along their gradient direction, thinning edges to 1px
+const suppressNonMaxima = (
+  magnitude: Float32Array,
+  gradX: Float32Array,
+  gradY: Float32Array,
+  width: number,
+  height: number,
+) => {
+  const thinned = new Float32Array(magnitude.length)
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x
+      const value = magnitude[index]
+      if (value === 0) continue
+      const angle = ((Math.atan2(gradY[index], gradX[index]) * 180) / Math.PI + 180) % 180
+      let offset: number
+      if (angle < 22.5 || angle >= 157.5) {
+        offset = 1
+      } else if (angle < 67.5) {
+        offset = width + 1
+      } else if (angle < 112.5) {
+        offset = width
+      } else {
+        offset = width - 1
+      }
+      if (value >= magnitude[index - offset] && value >= magnitude[index + offset]) {
+        thinned[index] = value
+      }
+    }
   }
-  ctx.drawImage(image, 0, 0)
+  return thinned
+}
 
-  const outlineTensor = tf.tidy(() => {
-    const pixels = tf.browser.fromPixels(canvas) as Tensor3D
-    const normalizedPixels = pixels.toFloat().div(tf.scalar(255)) as Tensor3D
-    const grayscale = normalizedPixels.mean(2) as Tensor2D
-    const grayscale3d = grayscale.expandDims(-1) as Tensor3D
-    const grayscale4d = grayscale3d.expandDims(0) as Tensor4D
-
-    const blurKernel = tf.tensor4d(
-      [
-        0.0625, 0.125, 0.0625,
-        0.125, 0.25, 0.125,
-        0.0625, 0.125, 0.0625,
-      ],
-      [3, 3, 1, 1],
-    )
+const NEIGHBOURS = [-1, 0, 1].flatMap((dy) => [-1, 0, 1].map((dx) => [dx, dy])).filter(([dx, dy]) => dx || dy)
 
-    const sobelXKernel = tf.tensor4d(
-      [
-        -1, 0, 1,
-        -2, 0, 2,
-        -1, 0, 1,
-      ],
-      [3, 3, 1, 1],
-    )
-    const sobelYKernel = tf.tensor4d(
-      [
-        -1, -2, -1,
-         0,  0,  0,
-         1,  2,  1,
-      ],
-      [3, 3, 1, 1],
-    )
+// Visits every 8-connected pixel reachable from `start` for which `include` holds
+const floodFill = (
+  start: number,
+  width: number,
+  height: number,
+  include: (index: number) => boolean,
+  visit: (index: number) => void,
+) => {
+  const stack = [start]
+  visit(start)
+  while (stack.length) {
+    const index = stack.pop()!
+    const x = index % width
+    const y = (index - x) / width
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = x + dx
+      const ny = y + dy
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+      const next = ny * width + nx
+      if (include(next)) {
+        visit(next)
+        stack.push(next)
+      }
+    }
+  }
+}
+
+const thresholdEdges = (thinned: Float32Array, width: number, height: number, settings: TraceSettings) => {
+  const lines = new Uint8Array(thinned.length)
+  const strong = settings.edgeThreshold
+  if (!settings.hysteresis) {
+    thinned.forEach((value, index) => {
+      if (value > 0 && value >= strong) lines[index] = 1
+    })
+    return lines
+  }
+  const weak = strong * settings.weakThreshold
+  thinned.forEach((value, index) => {
+    if (value > 0 && value >= strong && !lines[index]) {
+      floodFill(
+        index,
+        width,
+        height,
+        (next) => !lines[next] && thinned[next] > 0 && thinned[next] >= weak,
+        (next) => {
+          lines[next] = 1
+        },
+      )
+    }
+  })
+  return lines
+}
 
-    const blurred = tf.conv2d(grayscale4d, blurKernel, 1, 'same') as Tensor4D
-    const gradX = tf.conv2d(blurred, sobelXKernel, 1, 'same') as Tensor4D
-    const gradY = tf.conv2d(blurred, sobelYKernel, 1, 'same') as Tensor4D
-    const magnitude = tf.sqrt(tf.add(tf.square(gradX), tf.square(gradY))) as Tensor4D
-    const normalized = tf.div(
-      magnitude,
-      tf.add(tf.max(magnitude), tf.scalar(1e-5)),
-    ) as Tensor4D
-
-    const sharpenKernel = tf.tensor4d(
-      [
-         0, -1,  0,
-        -1,  5, -1,
-         0, -1,  0,
-      ],
-      [3, 3, 1, 1],
+const removeSpecks = (lines: Uint8Array, width: number, height: number, minSize: number) => {
+  if (minSize <= 1) return
+  const visited = new Uint8Array(lines.length)
+  lines.forEach((value, index) => {
+    if (!value || visited[index]) return
+    const component: number[] = []
+    floodFill(
+      index,
+      width,
+      height,
+      (next) => lines[next] === 1 && !visited[next],
+      (next) => {
+        visited[next] = 1
+        component.push(next)
+      },
     )
-    const sharpened = tf.conv2d(normalized, sharpenKernel, 1, 'same') as Tensor4D
-    const clipped = sharpened.clipByValue(0, 1) as Tensor4D
-    const squeezed = clipped.squeeze([0, 3]) as Tensor2D
-    return squeezed
+    if (component.length < minSize) {
+      component.forEach((pixel) => {
+        lines[pixel] = 0
+      })
+    }
   })
+}
 
-  const rgba = tf.tidy(() => {
-    // Always use white background with black outlines
-    const whiteBackground = tf.fill(outlineTensor.shape, 1) // RGB = 1,1,1 = white
-    
-    // Create black outlines (invert the outline tensor)
-    const blackOutlines = tf.sub(tf.scalar(1), outlineTensor.mul(0.95))
-    
-    return tf.stack([whiteBackground, whiteBackground, whiteBackground, blackOutlines], 2) as Tensor3D
+// Stamps a disc of `thickness` px over every line pixel
+const thickenLines = (lines: Uint8Array, width: number, height: number, thickness: number) => {
+  if (thickness <= 1) return lines
+  const low = -Math.floor((thickness - 1) / 2)
+  const high = Math.ceil((thickness - 1) / 2)
+  const center = (low + high) / 2
+  const radiusSquared = (thickness / 2) ** 2
+  const offsets: [number, number][] = []
+  for (let dy = low; dy <= high; dy += 1) {
+    for (let dx = low; dx <= high; dx += 1) {
+      if ((dx - center) ** 2 + (dy - center) ** 2 <= radiusSquared) offsets.push([dx, dy])
+    }
+  }
+  const thick = new Uint8Array(lines.length)
+  lines.forEach((value, index) => {
+    if (!value) return
+    const x = index % width
+    const y = (index - x) / width
+    for (const [dx, dy] of offsets) {
+      const nx = x + dx
+      const ny = y + dy
+      if (nx >= 0 && ny >= 0 && nx < width && ny < height) thick[ny * width + nx] = 1
+    }
   })
+  return thick
+}
 
-  const pixelData = await tf.browser.toPixels(rgba)
-  outlineTensor.dispose()
-  rgba.dispose()
+const parseHexColor = (color: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color)
+  const value = match ? parseInt(match[1], 16) : 0
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
 
-  const outlineCanvas = document.createElement('canvas')
-  outlineCanvas.width = canvas.width
-  outlineCanvas.height = canvas.height
-  const outlineCtx = outlineCanvas.getContext('2d')
-  if (!outlineCtx) {
-    throw new Error('Unable to paint outline result')
-  }
-  const clamped = new Uint8ClampedArray(pixelData)
-  const imageData = new ImageData(clamped, canvas.width, canvas.height)
-  outlineCtx.putImageData(imageData, 0, 0)
+export interface TracedLines {
+  lines: Uint8Array  // 1 where a line pixel survives thresholding and speck removal
+  width: number
+  height: number
+}
+
+/**
+ * Edge strength and direction for raw pixels. Nothing here touches the DOM, so it runs in the
+ * Auto Trace worker; person probabilities come from the main thread, where MediaPipe can load.
+ */
+export const computeEdgeField = async (
+  pixels: ImageData,
+  personProbabilities: Float32Array | null,
+  settings: Pick<TraceSettings, 'blurRadius'>,
+): Promise<EdgeField> => {
+  await ensureTfReady()
+  const { width, height } = pixels
+  const blurRadius = Math.round(settings.blurRadius)
+
+  const [magnitudeTensor, gradXTensor, gradYTensor] = tf.tidy(() => {
+    const rgb = tf.browser.fromPixels(pixels) as Tensor3D
+    const normalizedPixels = rgb.toFloat().div(tf.scalar(255)) as Tensor3D
+    const grayscale = normalizedPixels.mean(2) as Tensor2D
+    const grayscale4d = grayscale.expandDims(-1).expandDims(0) as Tensor4D
+    const imageEdges = detectEdges(grayscale4d, blurRadius)
+    if (!personProbabilities) {
+      return [imageEdges.magnitude, imageEdges.gradX, imageEdges.gradY]
+    }
 
-  return outlineCanvas.toDataURL('image/png')
+    // Silhouette comes from the mask's own edges; interior detail is the image's edges kept only
+    // where the subject is, with a soft ramp so strokes fade out instead of clipping at the border
+    const probability = tf.tensor2d(personProbabilities, [height, width])
+    const silhouette = detectEdges(probability.expandDims(-1).expandDims(0) as Tensor4D, blurRadius)
+    const subject = probability.sub(0.3).div(0.4).clipByValue(0, 1)
+    const interior = imageEdges.magnitude.mul(subject) as Tensor2D
+    const useSilhouette = tf.greater(silhouette.magnitude, interior)
+    return [
+      tf.maximum(silhouette.magnitude, interior) as Tensor2D,
+      tf.where(useSilhouette, silhouette.gradX, imageEdges.gradX) as Tensor2D,
+      tf.where(useSilhouette, silhouette.gradY, imageEdges.gradY) as Tensor2D,
+    ]
+  })
+
+  const [magnitude, gradX, gradY] = (await Promise.all([
+    magnitudeTensor.data(),
+    gradXTensor.data(),
+    gradYTensor.data(),
+  ])) as Float32Array[]
+  magnitudeTensor.dispose()
+  gradXTensor.dispose()
+  gradYTensor.dispose()
+
+  return { magnitude, gradX, gradY, width, height }
+}
+
+/**
+ * Thins, thresholds and despeckles an edge field into line pixels. `magnitude` replaces the field's
+ * own strengths, e.g. after temporal smoothing; directions always come from the field.
+ */
+export const traceLines = (
+  { gradX, gradY, width, height, ...field }: EdgeField,
+  settings: TraceSettings,
+  magnitude: Float32Array = field.magnitude,
+): TracedLines => {
+  const thinned = suppressNonMaxima(magnitude, gradX, gradY, width, height)
+  const lines = thresholdEdges(thinned, width, height, settings)
+  removeSpecks(lines, width, height, Math.round(settings.minSpeckSize))
+  return { lines, width, height }
 }
+
+/** Raster output: lines in the chosen color on white paper. */
+export const renderOutlinePixels = ({ lines, width, height }: TracedLines, settings: TraceSettings): ImageData => {
+  const thick = thickenLines(lines, width, height, Math.round(settings.lineThickness))
+  const [red, green, blue] = parseHexColor(settings.lineColor)
+  const pixelData = new Uint8ClampedArray(width * height * 4).fill(255)
+  thick.forEach((value, index) => {
+    if (!value) return
+    pixelData[index * 4] = red
+    pixelData[index * 4 + 1] = green
+    pixelData[index * 4 + 2] = blue
+  })
+  return new ImageData(pixelData, width, height)
+}
+
+/** Vector output: the line mask thinned, traced and simplified into regular brush strokes. */
+export const traceStrokes = ({ lines, width, height }: TracedLines, settings: TraceSettings): DrawingStroke[] =>
+  vectorizeLines(lines, width, height, settings.simplifyTolerance).map((points) => ({
+    id: uuidv4(),
+    points,
+    color: settings.lineColor,
+    size: settings.lineThickness,
+    mode: 'smooth',
+  }))
@@ -1,5 +1,61 @@
 import { v4 as uuidv4 } from 'uuid'
-import type { DrawingLayer, FrameData } from '../types'
+import type { AnimatorProject, AssetId, DrawingLayer, FrameData, TraceSettings } from '../types'
+
+export const DEFAULT_FPS = 12
+export const FPS_PRESETS = [8, 12, 15, 24, 30]
+export const MIN_FPS = 1
+export const MAX_FPS = 60
+
+export const clampFps = (fps: number) =>
+  Math.min(MAX_FPS, Math.max(MIN_FPS, Math.round(fps) || DEFAULT_FPS))
+
+export const getProjectFps = (project?: Pick<AnimatorProject, 'fps'> | null) =>
+  project?.fps ? clampFps(project.fps) : DEFAULT_FPS
+
+export const DEFAULT_TRACE_SETTINGS: TraceSettings = {
+  mode: 'edges',
+  blurRadius: 1,
+  edgeThreshold: 0.15,
+  hysteresis: true,
+  weakThreshold: 0.5,
+  minSpeckSize: 8,
+  lineThickness: 2,
+  lineColor: '#000000',
+  output: 'image',
+  simplifyTolerance: 1.5,
+  temporalSmoothing: 0,
+  motionCompensation: true,
+}
+
+// Merged over the defaults so projects saved with fewer settings still trace with every option set
+export const getTraceSettings = (project?: Pick<AnimatorProject, 'traceSettings'> | null): TraceSettings => ({
+  ...DEFAULT_TRACE_SETTINGS,
+  ...project?.traceSettings,
+})
+
+export const isAutoTraceLayer = (layer: DrawingLayer) => layer.name.startsWith('Auto Trace')
+
+// Auto Trace reads from image layers only, never the base frame image or an earlier trace
+export const getTraceSourceImageId = (frame: FrameData): AssetId | undefined =>
+  frame.layers.find((layer) => layer.visible && layer.imageId && !isAutoTraceLayer(layer))?.imageId
+
+// Source images of the frames either side of `index`, blended in by temporal smoothing
+export const getTraceNeighbourImageIds = (frames: FrameData[], index: number): AssetId[] =>
+  index < 0
+    ? []
+    : [frames[index - 1], frames[index + 1]]
+        .map((frame) => (frame ? getTraceSourceImageId(frame) : undefined))
+        .filter((imageId): imageId is AssetId => Boolean(imageId))
+
+// Earlier trace layers make way for the new one, which also takes over the selection if one of them had it
+export const replaceAutoTraceLayer = (frame: FrameData, traceLayer: DrawingLayer): FrameData => {
+  const keptLayers = frame.layers.filter((layer) => !isAutoTraceLayer(layer))
+  return {
+    ...frame,
+    layers: [...keptLayers, traceLayer],
+    activeLayerId: keptLayers.some((layer) => layer.id === frame.activeLayerId) ? frame.activeLayerId : traceLayer.id,
+  }
+}
 
 export const createLayer = (name: string): DrawingLayer => ({
   id: uuidv4(),
@@ -8,12 +64,78 @@ export const createLayer = (name: string): DrawingLayer => ({
   strokes: [],
 })
 
+export const renumberFrames = (frames: FrameData[]) =>
+  frames.map((frame, index) => (frame.frameNumber === index ? frame : { ...frame, frameNumber: index }))
+
+// Fresh ids for the frame, its layers and strokes, so a pasted copy never shares identity with its source
+export const cloneFrame = (frame: FrameData): FrameData => {
+  const layerIds = new Map<string, string>()
+  const layers = frame.layers.map((layer) => {
+    const id = uuidv4()
+    layerIds.set(layer.id, id)
+    return {
+      ...layer,
+      id,
+      strokes: layer.strokes.map((stroke) => ({ ...stroke, id: uuidv4() })),
+      fills: layer.fills?.map((fill) => ({ ...fill, id: uuidv4() })),
+    }
+  })
+  return {
+    ...frame,
+    id: uuidv4(),
+    layers,
+    activeLayerId: layerIds.get(frame.activeLayerId) ?? layers[0]?.id ?? frame.activeLayerId,
+  }
+}
+
+/** Selected frame ids in timeline order; the active frame alone when it is not part of the selection. */
+export const getFrameSelection = (frames: FrameData[], selectedFrameIds: string[], activeFrameId: string | null) => {
+  if (!activeFrameId) return []
+  if (!selectedFrameIds.includes(activeFrameId)) return [activeFrameId]
+  const selected = new Set(selectedFrameIds)
+  return frames.filter((frame) => selected.has(frame.id)).map((frame) => frame.id)
+}
+
+/** Moves `frameIds` together, in timeline order, to the gap before `targetIndex` of the current timeline. */
+export const moveFrames = (frames: FrameData[], frameIds: string[], targetIndex: number) => {
+  const moving = new Set(frameIds)
+  const moved = frames.filter((frame) => moving.has(frame.id))
+  const rest = frames.filter((frame) => !moving.has(frame.id))
+  const insertIndex = targetIndex - frames.slice(0, targetIndex).filter((frame) => moving.has(frame.id)).length
+  rest.splice(insertIndex, 0, ...moved)
+  return renumberFrames(rest)
+}
+
+const VIDEO_LAYER_NAME = /^Video Layer (\d+)$/
+
+export const getNextVideoLayerName = (frames: FrameData[]) => {
+  let highest = 0
+  frames.forEach((frame) =>
+    frame.layers.forEach((layer) => {
+      const match = VIDEO_LAYER_NAME.exec(layer.name)
+      if (match) highest = Math.max(highest, Number(match[1]))
+    }),
+  )
+  return `Video Layer ${highest + 1}`
+}
+
+// Stacked just above the frame's other image layers so it covers the earlier footage
+export const addImageLayerAboveImages = (frame: FrameData, imageLayer: DrawingLayer): FrameData => {
+  let insertIndex = 0
+  frame.layers.forEach((layer, index) => {
+    if (layer.imageId) insertIndex = index + 1
+  })
+  const layers = [...frame.layers]
+  layers.splice(insertIndex, 0, imageLayer)
+  return { ...frame, layers }
+}
+
 export const cloneVisibleImageLayers = (frames: FrameData[]): DrawingLayer[] => {
   const seen = new Map<string, DrawingLayer>()
   frames.forEach((frame) => {
     frame.layers.forEach((layer) => {
-      if (layer.imageUrl && !seen.has(layer.imageUrl)) {
-        seen.set(layer.imageUrl, layer)
+      if (layer.imageId && !seen.has(layer.imageId)) {
+        seen.set(layer.imageId, layer)
       }
     })
   })
@@ -23,7 +145,7 @@ export const cloneVisibleImageLayers = (frames: FrameData[]): DrawingLayer[] =>
 export const applyImageLayerToFrames = (
   frames: FrameData[],
   targetFrameId: string,
-  dataUrl: string,
+  imageId: AssetId,
   scope: 'frame' | 'all',
 ): FrameData[] => {
   return frames.map((frame) => {
@@ -31,7 +153,7 @@ export const applyImageLayerToFrames = (
     let hasImageLayer = false
 
     const updatedLayers = frame.layers.map((layer) => {
-      if (layer.imageUrl === dataUrl) {
+      if (layer.imageId === imageId) {
         hasImageLayer = true
         return { ...layer, visible: shouldEnable }
       }
@@ -44,7 +166,7 @@ export const applyImageLayerToFrames = (
 
     const imageLayer: DrawingLayer = {
       ...createLayer(`Image ${frame.layers.length + 1}`),
-      imageUrl: dataUrl,
+      imageId,
       visible: shouldEnable,
     }
 
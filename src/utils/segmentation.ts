@@ -0,0 +1,75 @@
+import * as bodySegmentation from '@tensorflow-models/body-segmentation'
+import type { BodySegmenter } from '@tensorflow-models/body-segmentation'
+import binaryGraphUrl from '@mediapipe/selfie_segmentation/selfie_segmentation.binarypb?url'
+import generalModelUrl from '@mediapipe/selfie_segmentation/selfie_segmentation.tflite?url'
+import landscapeModelUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_landscape.tflite?url'
+import simdLoaderUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.js?url'
+import simdWasmUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.wasm?url'
+import simdDataUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.data?url'
+import loaderUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.js?url'
+import wasmUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.wasm?url'
+
+// The MediaPipe solution fetches its graph, weights and wasm by file name; every file is bundled
+// from the installed package so segmentation works without a network connection
+const solutionFiles: Record<string, string> = {
+  'selfie_segmentation.binarypb': binaryGraphUrl,
+  'selfie_segmentation.tflite': generalModelUrl,
+  'selfie_segmentation_landscape.tflite': landscapeModelUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.js': simdLoaderUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.data': simdDataUrl,
+  'selfie_segmentation_solution_wasm_bin.js': loaderUrl,
+  'selfie_segmentation_solution_wasm_bin.wasm': wasmUrl,
+}
+
+const locateFile = (path: string) => {
+  const url = solutionFiles[path]
+  if (!url) {
+    throw new Error(`Segmentation model file ${path} is not bundled`)
+  }
+  return url
+}
+
+let segmenterPromise: Promise<BodySegmenter> | null = null
+
+const getSegmenter = () => {
+  if (!segmenterPromise) {
+    segmenterPromise = bodySegmentation
+      .createSegmenter(bodySegmentation.SupportedModels.MediaPipeSelfieSegmentation, {
+        runtime: 'mediapipe',
+        modelType: 'general',
+        locateFile,
+      })
+      .catch((error) => {
+        segmenterPromise = null
+        throw error
+      })
+  }
+  return segmenterPromise
+}
+
+/**
+ * Per-pixel person probability (0-1) for the image, at the image's own resolution.
+ * The MediaPipe mask stores the probability in its red channel.
+ */
+export const segmentPerson = async (image: HTMLCanvasElement): Promise<Float32Array> => {
+  const segmenter = await getSegmenter()
+  const [segmentation] = await segmenter.segmentPeople(image)
+  const probabilities = new Float32Array(image.width * image.height)
+  if (!segmentation) return probabilities
+
+  // The mask may come back at the model's resolution, so scale it onto the source size
+  const maskCanvas = document.createElement('canvas')
+  maskCanvas.width = image.width
+  maskCanvas.height = image.height
+  const ctx = maskCanvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Unable to derive 2d context for person segmentation')
+  }
+  ctx.drawImage(await segmentation.mask.toCanvasImageSource(), 0, 0, image.width, image.height)
+  const { data } = ctx.getImageData(0, 0, image.width, image.height)
+  for (let i = 0; i < probabilities.length; i += 1) {
+    probabilities[i] = data[i * 4] / 255
+  }
+  return probabilities
+}
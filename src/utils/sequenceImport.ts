@@ -0,0 +1,83 @@
+import JSZip from 'jszip'
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { buildFitFilter } from './videoImport'
+
+export const SEQUENCE_ACCEPT = 'image/png,image/jpeg,image/webp,image/bmp,image/gif,.zip,application/zip'
+
+const IMAGE_PATTERN = /\.(png|jpe?g|webp|bmp)$/i
+const GIF_PATTERN = /\.gif$/i
+const ZIP_PATTERN = /\.zip$/i
+
+export interface SequenceEntry {
+  name: string
+  data: Uint8Array
+}
+
+const isSequenceImage = (name: string) => IMAGE_PATTERN.test(name) || GIF_PATTERN.test(name)
+
+// Natural order, so frame2.png comes before frame10.png
+const compareNames = (a: SequenceEntry, b: SequenceEntry) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+
+const isGifEntry = (entry: SequenceEntry) => GIF_PATTERN.test(entry.name)
+
+/** Images and GIFs from the picked files and any ZIPs among them, in natural name order. */
+export const collectSequenceEntries = async (files: File[]): Promise<SequenceEntry[]> => {
+  const entries: SequenceEntry[] = []
+  for (const file of files) {
+    if (ZIP_PATTERN.test(file.name)) {
+      const zip = await JSZip.loadAsync(file)
+      const zipped = Object.values(zip.files).filter(
+        (entry) => !entry.dir && !entry.name.startsWith('__MACOSX/') && isSequenceImage(entry.name),
+      )
+      for (const entry of zipped) {
+        entries.push({ name: entry.name, data: await entry.async('uint8array') })
+      }
+    } else if (isSequenceImage(file.name)) {
+      entries.push({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) })
+    }
+  }
+  return entries.sort(compareNames)
+}
+
+/**
+ * Writes the entries into FFmpeg's filesystem as frame files, in order, and returns their names for
+ * `composeFrames`. Stills become one frame each; GIFs are resampled at `fps` like a video. With
+ * `fitTo` every frame is letterboxed onto that size, so it matches the frames of an open project.
+ */
+export const writeSequenceFrames = async (
+  ffmpeg: FFmpeg,
+  entries: SequenceEntry[],
+  fps: number,
+  fitTo?: { width: number; height: number },
+) => {
+  const names: string[] = []
+  for (const [index, entry] of entries.entries()) {
+    const prefix = `sequence_${String(index).padStart(4, '0')}`
+    const extension = entry.name.split('.').pop()!.toLowerCase()
+    if (!isGifEntry(entry) && !fitTo) {
+      const name = `${prefix}.${extension}`
+      await ffmpeg.writeFile(name, entry.data)
+      names.push(name)
+      continue
+    }
+    if (!isGifEntry(entry)) {
+      const input = `sequence-input.${extension}`
+      await ffmpeg.writeFile(input, entry.data)
+      await ffmpeg.exec(['-i', input, '-vf', buildFitFilter(fitTo!), `${prefix}.png`])
+      await ffmpeg.deleteFile(input)
+      names.push(`${prefix}.png`)
+      continue
+    }
+    const filter = fitTo ? `fps=${fps},${buildFitFilter(fitTo)}` : `fps=${fps}`
+    await ffmpeg.writeFile('sequence-input.gif', entry.data)
+    await ffmpeg.exec(['-i', 'sequence-input.gif', '-vf', filter, `${prefix}_%04d.png`])
+    await ffmpeg.deleteFile('sequence-input.gif')
+    const decoded = (await ffmpeg.listDir('/'))
+      .map((file) => file.name)
+      .filter((name) => name.startsWith(`${prefix}_`))
+      .sort()
+    names.push(...decoded)
+  }
+  return names
+}
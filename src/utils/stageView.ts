@@ -0,0 +1,87 @@
+// Where the frame sits on the stage: frame point p is drawn at rotate(scale * p) + (x, y), which is
+// exactly the transform Konva applies for these Stage attributes. Strokes stay in frame space.
+export interface StageView {
+  scale: number  // Screen pixels per frame pixel
+  rotation: number  // Degrees clockwise
+  x: number  // Screen position of the frame's top-left corner
+  y: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export const MIN_VIEW_SCALE = 0.1
+export const MAX_VIEW_SCALE = 32
+export const ZOOM_STEP = 1.25
+export const ROTATION_STEP = 15
+
+const clampScale = (scale: number) => Math.min(MAX_VIEW_SCALE, Math.max(MIN_VIEW_SCALE, scale))
+
+const rotate = ({ x, y }: Point, degrees: number): Point => {
+  const radians = (degrees * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return { x: x * cos - y * sin, y: x * sin + y * cos }
+}
+
+// Wraps into (-180, 180] so the rotation readout stays short
+export const normalizeRotation = (degrees: number) => {
+  const wrapped = ((degrees % 360) + 360) % 360
+  return wrapped > 180 ? wrapped - 360 : wrapped
+}
+
+export const toScreenPoint = (view: StageView, point: Point): Point => {
+  const turned = rotate({ x: point.x * view.scale, y: point.y * view.scale }, view.rotation)
+  return { x: turned.x + view.x, y: turned.y + view.y }
+}
+
+export const toFramePoint = (view: StageView, point: Point): Point => {
+  const turned = rotate({ x: point.x - view.x, y: point.y - view.y }, -view.rotation)
+  return { x: turned.x / view.scale, y: turned.y / view.scale }
+}
+
+// Places the view so that frame point `framePoint` lands on screen point `screenPoint`
+const anchorView = (scale: number, rotation: number, framePoint: Point, screenPoint: Point): StageView => {
+  const turned = rotate({ x: framePoint.x * scale, y: framePoint.y * scale }, rotation)
+  return { scale, rotation, x: screenPoint.x - turned.x, y: screenPoint.y - turned.y }
+}
+
+/** Largest view that shows the whole (possibly rotated) frame, centred in the viewport. */
+export const fitView = (
+  viewport: { width: number; height: number },
+  frame: { width: number; height: number },
+  rotation = 0,
+): StageView => {
+  const radians = (rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(radians))
+  const sin = Math.abs(Math.sin(radians))
+  const boundsWidth = frame.width * cos + frame.height * sin
+  const boundsHeight = frame.width * sin + frame.height * cos
+  const scale = clampScale(Math.min(viewport.width / boundsWidth, viewport.height / boundsHeight))
+  return anchorView(
+    scale,
+    rotation,
+    { x: frame.width / 2, y: frame.height / 2 },
+    { x: viewport.width / 2, y: viewport.height / 2 },
+  )
+}
+
+/** Zooms to `scale` keeping whatever is under `anchor` (a screen point) in place. */
+export const zoomViewAt = (view: StageView, anchor: Point, scale: number): StageView =>
+  anchorView(clampScale(scale), view.rotation, toFramePoint(view, anchor), anchor)
+
+/** Turns the canvas by `degrees` around the screen point `anchor`. */
+export const rotateViewAround = (view: StageView, anchor: Point, degrees: number): StageView =>
+  anchorView(view.scale, normalizeRotation(view.rotation + degrees), toFramePoint(view, anchor), anchor)
+
+export const panView = (view: StageView, dx: number, dy: number): StageView => ({
+  ...view,
+  x: view.x + dx,
+  y: view.y + dy,
+})
+
+/** Centres the viewport on a frame point, e.g. one picked on the navigator. */
+export const centerViewOn = (view: StageView, viewport: { width: number; height: number }, framePoint: Point) =>
+  anchorView(view.scale, view.rotation, framePoint, { x: viewport.width / 2, y: viewport.height / 2 })
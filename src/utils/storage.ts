@@ -1,34 +1,434 @@
-import { del, get, set } from 'idb-keyval'
-import type { AnimatorProject, FrameData } from '../types'
+import { del, delMany, get, getMany, keys, set, setMany, update } from 'idb-keyval'
+import { v4 as uuidv4 } from 'uuid'
+import type { AnimatorProject, AssetId, DrawingLayer, DrawingStroke, FrameData, ProjectSummary } from '../types'
+import { collectProjectAssetIds, deleteUnusedAssets, loadAssets, putAsset } from './assets'
+import { createFrameThumbnail } from './imageHelpers'
 
-const PROJECT_KEY = 'flipaclip-project'
+const LEGACY_PROJECT_KEY = 'flipaclip-project'
+const PROJECT_INDEX_KEY = 'animator-projects'
+const STORAGE_VERSION = 3
 
-export const loadProject = async (): Promise<AnimatorProject | null> => {
+// Every key of a project shares the document key as prefix, so it can be dropped as a unit
+const PROJECT_KEY_PREFIX = 'animator-project:'
+const projectKey = (id: string) => `${PROJECT_KEY_PREFIX}${id}`
+const frameKey = (projectId: string, frameId: string) => `${projectKey(projectId)}:frame:${frameId}`
+const strokesKey = (projectId: string, frameId: string, layerId: string) =>
+  `${frameKey(projectId, frameId)}:layer:${layerId}:strokes`
+
+// Images and audio are content-addressed assets (see utils/assets); records only hold their ids.
+// Strokes change with every edit, so each layer's strokes live under their own key.
+type StoredLayer = Omit<DrawingLayer, 'strokes'>
+
+// Frames imported from early archives were saved with their composite inline as `compositedUrl`
+type StoredFrame = Omit<FrameData, 'layers'> & { layers: StoredLayer[]; compositedUrl?: string }
+
+interface StoredProjectDocument extends Omit<AnimatorProject, 'frames'> {
+  storageVersion: number
+  frameIds: string[]
+}
+
+// Before the asset store, binary data was kept inline as data URLs
+type DataUrlLayer = Omit<DrawingLayer, 'imageId'> & { imageUrl?: string }
+
+type DataUrlFrame = Omit<FrameData, 'imageId' | 'outlineId' | 'compositedId' | 'layers'> & {
+  imageUrl: string
+  outlineUrl?: string
+  compositedUrl?: string
+  layers: DataUrlLayer[]
+}
+
+type DataUrlProject = Omit<AnimatorProject, 'frames' | 'audioId'> & {
+  frames: DataUrlFrame[]
+  audioUrl?: string
+}
+
+// Version 2 split projects into per-frame keys but still stored data URLs next to them
+type V2FrameAsset = 'image' | 'outline' | 'composited'
+
+type V2StoredFrame = Omit<DataUrlFrame, 'imageUrl' | 'outlineUrl' | 'compositedUrl' | 'layers'> & {
+  assets: V2FrameAsset[]
+  layers: (Omit<DataUrlLayer, 'strokes' | 'imageUrl'> & { hasImage: boolean })[]
+}
+
+const V2_FRAME_ASSET_FIELDS: Record<V2FrameAsset, 'imageUrl' | 'outlineUrl' | 'compositedUrl'> = {
+  image: 'imageUrl',
+  outline: 'outlineUrl',
+  composited: 'compositedUrl',
+}
+
+const v2AudioKey = (projectId: string) => `${projectKey(projectId)}:audio`
+const v2FrameAssetKey = (projectId: string, frameId: string, asset: V2FrameAsset) =>
+  `${frameKey(projectId, frameId)}:${asset}`
+const v2LayerImageKey = (projectId: string, frameId: string, layerId: string) =>
+  `${frameKey(projectId, frameId)}:layer:${layerId}:image`
+
+// Version 1 kept the whole project, data URLs included, under the document key
+const isDataUrlDocument = (
+  stored: StoredProjectDocument | DataUrlProject,
+): stored is DataUrlProject => 'frames' in stored
+
+// Thumbnails only depend on the first frame, so skip re-rendering while it is unchanged
+const thumbnailSources = new Map<string, { frame: FrameData; thumbnail?: string }>()
+
+const readIndex = async (): Promise<ProjectSummary[]> =>
+  (await get<ProjectSummary[]>(PROJECT_INDEX_KEY)) ?? []
+
+// Autosave, renames and deletes all touch the index; each change reads and writes it in a single
+// IndexedDB transaction so overlapping ones cannot drop each other's summaries
+const updateIndex = (change: (summaries: ProjectSummary[]) => ProjectSummary[]) =>
+  update<ProjectSummary[]>(PROJECT_INDEX_KEY, (summaries) => change(summaries ?? []))
+
+const upsertSummary = (summary: ProjectSummary) =>
+  updateIndex((index) => [...index.filter((entry) => entry.id !== summary.id), summary])
+
+const resolveThumbnail = async (project: AnimatorProject) => {
+  const firstFrame = project.frames[0]
+  if (!firstFrame) return undefined
+  const cached = thumbnailSources.get(project.id)
+  if (cached?.frame === firstFrame) return cached.thumbnail
+  let thumbnail: string | undefined
   try {
-    const saved = await get<AnimatorProject>(PROJECT_KEY)
-    if (saved) {
-      return saved
+    thumbnail = await createFrameThumbnail(firstFrame)
+  } catch (error) {
+    console.error('Failed to render project thumbnail', error)
+  }
+  thumbnailSources.set(project.id, { frame: firstFrame, thumbnail })
+  return thumbnail
+}
+
+const summarize = async (project: AnimatorProject): Promise<ProjectSummary> => ({
+  id: project.id,
+  name: project.name || 'Untitled project',
+  updatedAt: project.updatedAt,
+  frameCount: project.frames.length,
+  thumbnail: await resolveThumbnail(project),
+})
+
+const collectFrameChanges = (
+  projectId: string,
+  frame: FrameData,
+  previous: FrameData | undefined,
+  writes: [string, unknown][],
+  removals: string[],
+) => {
+  const previousLayers = new Map(previous?.layers.map((layer) => [layer.id, layer]))
+  const layers: StoredLayer[] = frame.layers.map(({ strokes, ...layerRest }) => {
+    const before = previousLayers.get(layerRest.id)
+    previousLayers.delete(layerRest.id)
+    if (strokes !== before?.strokes) {
+      writes.push([strokesKey(projectId, frame.id, layerRest.id), strokes])
+    }
+    return layerRest
+  })
+  for (const removed of previousLayers.values()) {
+    removals.push(strokesKey(projectId, frame.id, removed.id))
+  }
+
+  const record: StoredFrame = { ...frame, layers }
+  writes.push([frameKey(projectId, frame.id), record])
+}
+
+const frameKeys = (projectId: string, frame: FrameData) => [
+  frameKey(projectId, frame.id),
+  ...frame.layers.map((layer) => strokesKey(projectId, frame.id, layer.id)),
+]
+
+// Frames and layers are replaced immutably, so reference checks against `previous` find what changed
+const writeProject = async (project: AnimatorProject, previous?: AnimatorProject) => {
+  const baseline = previous?.id === project.id ? previous : undefined
+  const writes: [string, unknown][] = []
+  const removals: string[] = []
+
+  const previousFrames = new Map(baseline?.frames.map((frame) => [frame.id, frame]))
+  for (const frame of project.frames) {
+    const before = previousFrames.get(frame.id)
+    previousFrames.delete(frame.id)
+    if (before === frame) continue
+    collectFrameChanges(project.id, frame, before, writes, removals)
+  }
+  for (const removed of previousFrames.values()) {
+    removals.push(...frameKeys(project.id, removed))
+  }
+
+  const { frames, ...rest } = project
+  const projectDocument: StoredProjectDocument = {
+    ...rest,
+    storageVersion: STORAGE_VERSION,
+    frameIds: frames.map((frame) => frame.id),
+  }
+
+  // Strokes and frame records land before the document that lists them; stale keys go last
+  await setMany(writes)
+  await set(projectKey(project.id), projectDocument)
+  if (removals.length) {
+    await delMany(removals)
+  }
+}
+
+const dataUrlToAsset = async (dataUrl: string) => putAsset(await (await fetch(dataUrl)).blob())
+
+// Moves inline data URLs into the asset store; shared URLs (e.g. one background per frame) convert once
+const convertDataUrlProject = async (legacy: DataUrlProject): Promise<AnimatorProject> => {
+  const converted = new Map<string, Promise<AssetId>>()
+  const toAsset = (dataUrl: string) => {
+    let pending = converted.get(dataUrl)
+    if (!pending) {
+      pending = dataUrlToAsset(dataUrl)
+      converted.set(dataUrl, pending)
     }
+    return pending
+  }
+
+  const frames: FrameData[] = []
+  for (const { imageUrl, outlineUrl, compositedUrl, layers, ...frameRest } of legacy.frames) {
+    const convertedLayers: DrawingLayer[] = []
+    for (const { imageUrl: layerImageUrl, ...layerRest } of layers) {
+      convertedLayers.push(layerImageUrl ? { ...layerRest, imageId: await toAsset(layerImageUrl) } : layerRest)
+    }
+    frames.push({
+      ...frameRest,
+      imageId: await toAsset(imageUrl),
+      outlineId: outlineUrl ? await toAsset(outlineUrl) : undefined,
+      compositedId: compositedUrl ? await toAsset(compositedUrl) : undefined,
+      layers: convertedLayers,
+    })
+  }
+
+  const { audioUrl, ...projectRest } = legacy
+  return {
+    ...projectRest,
+    frames,
+    audioId: audioUrl ? await toAsset(audioUrl) : undefined,
+  }
+}
+
+const readV2Project = async (
+  projectDocument: StoredProjectDocument & { hasAudio?: boolean },
+): Promise<{ project: DataUrlProject; payloadKeys: string[] }> => {
+  const { storageVersion, frameIds, hasAudio, ...rest } = projectDocument
+  if (storageVersion !== 2) {
+    throw new Error(`Unsupported project storage version ${storageVersion}`)
+  }
+  const records = await getMany<V2StoredFrame | undefined>(frameIds.map((frameId) => frameKey(rest.id, frameId)))
+  const storedFrames = records.filter((record): record is V2StoredFrame => Boolean(record))
+
+  const payloadKeys: string[] = []
+  storedFrames.forEach((record) => {
+    record.assets.forEach((asset) => payloadKeys.push(v2FrameAssetKey(rest.id, record.id, asset)))
+    record.layers.forEach((layer) => {
+      if (layer.hasImage) payloadKeys.push(v2LayerImageKey(rest.id, record.id, layer.id))
+    })
+  })
+  if (hasAudio) payloadKeys.push(v2AudioKey(rest.id))
+  const payloadValues = await getMany<string>(payloadKeys)
+  const payloads = new Map(payloadKeys.map((key, index) => [key, payloadValues[index]]))
+  const strokes = await getMany<DrawingStroke[] | undefined>(
+    storedFrames.flatMap((record) => record.layers.map((layer) => strokesKey(rest.id, record.id, layer.id))),
+  )
+
+  let strokeIndex = 0
+  const frames = storedFrames.map(({ assets, layers, ...frameRest }) => {
+    const frame: DataUrlFrame = {
+      ...frameRest,
+      imageUrl: '',
+      layers: layers.map(({ hasImage, ...layerRest }) => ({
+        ...layerRest,
+        strokes: strokes[strokeIndex++] ?? [],
+        imageUrl: hasImage ? payloads.get(v2LayerImageKey(rest.id, frameRest.id, layerRest.id)) : undefined,
+      })),
+    }
+    assets.forEach((asset) => {
+      frame[V2_FRAME_ASSET_FIELDS[asset]] = payloads.get(v2FrameAssetKey(rest.id, frameRest.id, asset)) as string
+    })
+    return frame
+  })
+
+  return {
+    project: { ...rest, frames, audioUrl: hasAudio ? payloads.get(v2AudioKey(rest.id)) : undefined },
+    payloadKeys,
+  }
+}
+
+const readProject = async (projectDocument: StoredProjectDocument): Promise<AnimatorProject> => {
+  const { storageVersion, frameIds, ...rest } = projectDocument
+  if (storageVersion > STORAGE_VERSION) {
+    throw new Error(`Project storage version ${storageVersion} is newer than this app supports`)
+  }
+  const records = await getMany<StoredFrame | undefined>(frameIds.map((frameId) => frameKey(rest.id, frameId)))
+  const storedFrames = records.filter((record): record is StoredFrame => {
+    if (!record) console.error('Missing stored frame record')
+    return Boolean(record)
+  })
+
+  const strokes = await getMany<DrawingStroke[] | undefined>(
+    storedFrames.flatMap((record) => record.layers.map((layer) => strokesKey(rest.id, record.id, layer.id))),
+  )
+  let strokeIndex = 0
+  const frames: FrameData[] = []
+  for (const { compositedUrl, ...record } of storedFrames) {
+    frames.push({
+      ...record,
+      compositedId: record.compositedId ?? (compositedUrl ? await dataUrlToAsset(compositedUrl) : undefined),
+      layers: record.layers.map((layer) => ({ ...layer, strokes: strokes[strokeIndex++] ?? [] })),
+    })
+  }
+
+  return { ...rest, frames }
+}
+// Project documents are the only project keys without a further `:` after the id
+const isProjectDocumentKey = (key: IDBValidKey): key is string =>
+  typeof key === 'string' && key.startsWith(PROJECT_KEY_PREFIX) && !key.includes(':', PROJECT_KEY_PREFIX.length)
+
+// Asset ids any stored project points at, read from the frame records so strokes stay on disk
+const collectStoredAssetIds = async () => {
+  const ids = new Set<AssetId>()
+  const documents = await getMany<StoredProjectDocument | DataUrlProject | undefined>(
+    (await keys()).filter(isProjectDocumentKey),
+  )
+  for (const projectDocument of documents) {
+    // Older layouts keep data URLs inline and reference no assets until they are converted
+    if (!projectDocument || isDataUrlDocument(projectDocument) || projectDocument.storageVersion < STORAGE_VERSION) {
+      continue
+    }
+    if (projectDocument.audioId) ids.add(projectDocument.audioId)
+    const records = await getMany<StoredFrame | undefined>(
+      projectDocument.frameIds.map((frameId) => frameKey(projectDocument.id, frameId)),
+    )
+    records.forEach((record) => {
+      if (!record) return
+      const frameIds = [record.imageId, record.outlineId, record.compositedId, ...record.layers.map((layer) => layer.imageId)]
+      frameIds.forEach((id) => {
+        if (id) ids.add(id)
+      })
+    })
+  }
+  return ids
+}
+
+// Assets are shared between projects by content hash, so they are dropped by a sweep over every
+// stored project rather than with the project that added them. Sweeps run one after another.
+let assetSweep = Promise.resolve()
+
+const sweepAssets = () => {
+  assetSweep = assetSweep
+    .then(async () => deleteUnusedAssets(await collectStoredAssetIds()))
+    .catch((error) => console.error('Failed to remove unused assets', error))
+  return assetSweep
+}
+
+// Projects saved before the library existed live under a single key without an id
+const migrateLegacyProject = async () => {
+  const legacy = await get<DataUrlProject>(LEGACY_PROJECT_KEY)
+  if (!legacy) return
+  if (legacy.frames?.length) {
+    const project = await convertDataUrlProject({ ...legacy, id: legacy.id ?? uuidv4() })
+    await writeProject(project)
+    await upsertSummary(await summarize(project))
+  }
+  await del(LEGACY_PROJECT_KEY)
+}
+
+export const createProjectId = () => uuidv4()
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  try {
+    await migrateLegacyProject()
+    // Picks up whatever earlier sessions left behind, e.g. assets only their undo history used
+    void sweepAssets()
+    const index = await readIndex()
+    return [...index].sort((a, b) => b.updatedAt - a.updatedAt)
+  } catch (error) {
+    console.error('Failed to list projects', error)
+    return []
+  }
+}
+
+export const loadProject = async (id: string): Promise<AnimatorProject | null> => {
+  try {
+    const saved = await get<StoredProjectDocument | DataUrlProject>(projectKey(id))
+    if (!saved) return null
+    let project: AnimatorProject
+    if (isDataUrlDocument(saved)) {
+      // Rewrite in the current layout before anything diffs against it
+      project = await convertDataUrlProject(saved)
+      await writeProject(project)
+    } else if (saved.storageVersion < STORAGE_VERSION) {
+      const { project: legacy, payloadKeys } = await readV2Project(saved)
+      project = await convertDataUrlProject(legacy)
+      await writeProject(project)
+      await delMany(payloadKeys)
+    } else {
+      project = await readProject(saved)
+    }
+    await loadAssets(collectProjectAssetIds([project]))
+    return project
   } catch (error) {
     console.error('Failed to load project', error)
   }
   return null
 }
 
-export const saveProject = async (project: AnimatorProject) => {
+/**
+ * Persists a project. With `previous` (the last state known to be stored) only the frames
+ * and layer strokes that changed since then are written; without it everything is.
+ * Assets are written by putAsset when they are created; ones the project stopped using are swept
+ * once nothing stored references them.
+ * Rejects when the write fails so callers can surface it.
+ */
+export const saveProject = async (project: AnimatorProject, previous?: AnimatorProject) => {
+  await writeProject(project, previous)
+  await upsertSummary(await summarize(project))
+  if (previous) {
+    const current = collectProjectAssetIds([project])
+    if ([...collectProjectAssetIds([previous])].some((id) => !current.has(id))) void sweepAssets()
+  }
+}
+
+export const deleteProject = async (id: string) => {
   try {
-    await set(PROJECT_KEY, project)
+    const prefix = `${projectKey(id)}:`
+    const allKeys = await keys()
+    await delMany([projectKey(id), ...allKeys.filter((key) => typeof key === 'string' && key.startsWith(prefix))])
+    await updateIndex((index) => index.filter((entry) => entry.id !== id))
+    thumbnailSources.delete(id)
+    await sweepAssets()
   } catch (error) {
-    console.error('Failed to save project', error)
+    console.error('Failed to delete project', error)
   }
 }
 
-export const clearProject = async () => {
+// Only the small project document changes, so frames are left untouched
+export const renameProject = async (id: string, name: string) => {
+  const projectDocument = await get<StoredProjectDocument | DataUrlProject>(projectKey(id))
+  if (!projectDocument || isDataUrlDocument(projectDocument) || projectDocument.storageVersion < STORAGE_VERSION) {
+    const project = await loadProject(id)
+    if (!project) return
+    await saveProject({ ...project, name, updatedAt: Date.now() }, project)
+    return
+  }
+  const renamed: StoredProjectDocument = { ...projectDocument, name, updatedAt: Date.now() }
+  await set(projectKey(id), renamed)
+  await updateIndex((index) =>
+    index.map((entry) => (entry.id === id ? { ...entry, name, updatedAt: renamed.updatedAt } : entry)),
+  )
+}
+
+export const duplicateProject = async (id: string): Promise<AnimatorProject | null> => {
+  const project = await loadProject(id)
+  if (!project) return null
+  const copy: AnimatorProject = {
+    ...project,
+    id: createProjectId(),
+    name: `${project.name || 'Untitled project'} copy`,
+    updatedAt: Date.now(),
+  }
   try {
-    await del(PROJECT_KEY)
+    await saveProject(copy)
   } catch (error) {
-    console.error('Failed to clear project', error)
+    console.error('Failed to duplicate project', error)
+    return null
   }
+  return copy
 }
 
 export const updateFrame = async (
@@ -40,9 +440,10 @@ export const updateFrame = async (
     frame.id === frameId ? updater(frame) : frame,
   )
   const updatedProject: AnimatorProject = {
+    ...project,
     frames,
     updatedAt: Date.now(),
   }
-  await saveProject(updatedProject)
+  await saveProject(updatedProject, project)
   return updatedProject
 }
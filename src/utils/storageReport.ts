@@ -0,0 +1,67 @@
+import type { AnimatorProject, AssetId, AssetUsage, ProjectStorageReport } from '../types'
+import { getAssetBlob } from './assets'
+
+const textEncoder = new TextEncoder()
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+export const buildProjectStorageReport = async (project: AnimatorProject): Promise<ProjectStorageReport> => {
+  const usages = new Map<AssetId, Map<string, number>>()
+  const reference = (id: AssetId | undefined, label: string) => {
+    if (!id) return
+    const roles = usages.get(id) ?? new Map<string, number>()
+    roles.set(label, (roles.get(label) ?? 0) + 1)
+    usages.set(id, roles)
+  }
+
+  let strokeBytes = 0
+  let strokeCount = 0
+  project.frames.forEach((frame) => {
+    reference(frame.imageId, 'Frame background')
+    reference(frame.outlineId, 'Outline')
+    reference(frame.compositedId, 'Composite')
+    frame.layers.forEach((layer) => {
+      reference(layer.imageId, `Layer "${layer.name}"`)
+      if (layer.strokes.length) {
+        strokeCount += layer.strokes.length
+        strokeBytes += textEncoder.encode(JSON.stringify(layer.strokes)).length
+      }
+    })
+  })
+  reference(project.audioId, 'Audio track')
+
+  const assets: AssetUsage[] = []
+  for (const [id, roles] of usages) {
+    let size = 0
+    let type = 'missing'
+    try {
+      const blob = await getAssetBlob(id)
+      size = blob.size
+      type = blob.type || 'application/octet-stream'
+    } catch (error) {
+      console.error('Failed to read asset for storage report', error)
+    }
+    const references = Array.from(roles.values()).reduce((sum, count) => sum + count, 0)
+    assets.push({
+      id,
+      size,
+      type,
+      references,
+      roles: Array.from(roles, ([label, count]) => ({ label, count })),
+    })
+  }
+  assets.sort((a, b) => b.size - a.size)
+
+  return {
+    assets,
+    assetBytes: assets.reduce((sum, asset) => sum + asset.size, 0),
+    undeduplicatedBytes: assets.reduce((sum, asset) => sum + asset.size * asset.references, 0),
+    strokeBytes,
+    strokeCount,
+  }
+}
@@ -0,0 +1,53 @@
+// Turns pointer samples into per-point stroke widths (as factors of the brush size) and an opacity.
+// Pens report pressure and tilt; mice and most touch screens do not, so their width follows speed
+// instead: slow lines run full width and fast flicks thin out, like ink.
+
+export interface StrokeSample {
+  x: number  // Frame coordinates
+  y: number
+  time: number  // ms, from PointerEvent.timeStamp
+  pressure: number | null  // 0-1 from a pen; null for mice and touch
+  tilt: number  // Degrees away from upright, 0 when unknown
+}
+
+const MIN_PEN_WIDTH = 0.15
+const MAX_TILT_BOOST = 0.5  // A pen laid flat draws up to this much wider, like the side of a pencil lead
+const MIN_SPEED_WIDTH = 0.35
+const MAX_SPEED_WIDTH = 1.1
+const SPEED_THINNING = 0.3  // Width lost per frame pixel per ms
+const SPEED_SMOOTHING = 0.3  // Share of the gap to the target width closed per sample
+const MIN_PEN_OPACITY = 0.2
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export const readPointerSample = (event: PointerEvent, x: number, y: number): StrokeSample => ({
+  x,
+  y,
+  time: event.timeStamp,
+  // Mice report 0.5 while a button is down, so only pens count as pressure-sensitive
+  pressure: event.pointerType === 'pen' ? event.pressure : null,
+  tilt: Math.min(90, Math.hypot(event.tiltX || 0, event.tiltY || 0)),
+})
+
+/** Width factor for `sample`, given the previous sample and the width factor it got. */
+export const getSampleWidth = (sample: StrokeSample, previous?: StrokeSample, previousWidth?: number) => {
+  if (sample.pressure !== null) {
+    const tiltBoost = 1 + (sample.tilt / 90) * MAX_TILT_BOOST
+    return round((MIN_PEN_WIDTH + (1 - MIN_PEN_WIDTH) * sample.pressure) * tiltBoost)
+  }
+  if (!previous || previousWidth === undefined) return 1
+  const elapsed = Math.max(1, sample.time - previous.time)
+  const speed = Math.hypot(sample.x - previous.x, sample.y - previous.y) / elapsed
+  const target = clamp(MAX_SPEED_WIDTH - speed * SPEED_THINNING, MIN_SPEED_WIDTH, MAX_SPEED_WIDTH)
+  return round(previousWidth + (target - previousWidth) * SPEED_SMOOTHING)
+}
+
+/** Stroke opacity from average pen pressure; undefined (opaque) without a pen. */
+export const getPressureOpacity = (samples: StrokeSample[]) => {
+  const pressures = samples.flatMap((sample) => (sample.pressure === null ? [] : [sample.pressure]))
+  if (!pressures.length) return undefined
+  const average = pressures.reduce((sum, pressure) => sum + pressure, 0) / pressures.length
+  return round(MIN_PEN_OPACITY + (1 - MIN_PEN_OPACITY) * average)
+}
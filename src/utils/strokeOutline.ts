@@ -0,0 +1,86 @@
+import type { DrawingStroke } from '../types'
+
+// Points closer than this add nothing to the outline but make its normals jumpy
+const MIN_POINT_DISTANCE = 0.5
+// Segments per half circle on round caps
+const CAP_SEGMENTS = 8
+
+export const hasVariableWidth = (stroke: DrawingStroke): stroke is DrawingStroke & { widths: number[] } =>
+  !!stroke.widths && stroke.widths.length * 2 === stroke.points.length
+
+interface OutlinePoint {
+  x: number
+  y: number
+  radius: number
+}
+
+const collectOutlinePoints = (points: number[], widths: number[]) => {
+  const collected: OutlinePoint[] = []
+  for (let index = 0; index < widths.length; index += 1) {
+    const point = { x: points[index * 2], y: points[index * 2 + 1], radius: Math.max(0.25, widths[index] / 2) }
+    const last = collected[collected.length - 1]
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_POINT_DISTANCE) {
+      last.radius = Math.max(last.radius, point.radius)
+      continue
+    }
+    collected.push(point)
+  }
+  return collected
+}
+
+const pushArc = (outline: number[], center: OutlinePoint, fromAngle: number) => {
+  for (let step = 1; step < CAP_SEGMENTS; step += 1) {
+    const angle = fromAngle - (Math.PI * step) / CAP_SEGMENTS
+    outline.push(center.x + Math.cos(angle) * center.radius, center.y + Math.sin(angle) * center.radius)
+  }
+}
+
+/**
+ * Closed polygon around a centre line whose width changes per point (`widths` in pixels, one per
+ * point): the left edge forwards, a round cap, the right edge back and another round cap. Fill it
+ * with the nonzero rule; a single point comes out as a circle.
+ */
+export const getStrokeOutline = (points: number[], widths: number[]): number[] => {
+  const path = collectOutlinePoints(points, widths)
+  if (!path.length) return []
+  if (path.length === 1) {
+    const outline: number[] = []
+    const [dot] = path
+    for (let step = 0; step < CAP_SEGMENTS * 2; step += 1) {
+      const angle = (Math.PI * step) / CAP_SEGMENTS
+      outline.push(dot.x + Math.cos(angle) * dot.radius, dot.y + Math.sin(angle) * dot.radius)
+    }
+    return outline
+  }
+
+  const left: number[] = []
+  const right: number[] = []
+  const angles = path.map((_, index) => {
+    // Tangent from the neighbours on both sides, so joints bend smoothly instead of kinking
+    const previous = path[Math.max(0, index - 1)]
+    const next = path[Math.min(path.length - 1, index + 1)]
+    return Math.atan2(next.y - previous.y, next.x - previous.x)
+  })
+  path.forEach((point, index) => {
+    const normalX = -Math.sin(angles[index]) * point.radius
+    const normalY = Math.cos(angles[index]) * point.radius
+    left.push(point.x + normalX, point.y + normalY)
+    right.push(point.x - normalX, point.y - normalY)
+  })
+
+  const outline = [...left]
+  const end = path[path.length - 1]
+  pushArc(outline, end, angles[angles.length - 1] + Math.PI / 2)
+  for (let index = right.length - 2; index >= 0; index -= 2) {
+    outline.push(right[index], right[index + 1])
+  }
+  pushArc(outline, path[0], angles[0] - Math.PI / 2)
+  return outline
+}
+
+/** Outline of a variable-width stroke drawn `baseWidth` pixels wide where its width factor is 1. */
+export const getVariableStrokeOutline = (
+  stroke: DrawingStroke & { widths: number[] },
+  baseWidth: number,
+  points: number[] = stroke.points,
+) => getStrokeOutline(points, stroke.widths.map((width) => width * baseWidth))
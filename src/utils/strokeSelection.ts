@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { DrawingStroke } from '../types'
+
+export interface Bounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// 2D affine matrix [a, b, c, d, e, f] as Konva's Transform.getMatrix() returns it:
+// x' = a * x + c * y + e, y' = b * x + d * y + f
+export type AffineMatrix = [number, number, number, number, number, number]
+
+// A stroke is picked when at least this share of its points falls inside the lasso or marquee
+const SELECTION_COVERAGE = 0.5
+
+// Even-odd ray casting; `polygon` is a flat [x0, y0, x1, y1, ...] list
+const isPointInPolygon = (x: number, y: number, polygon: number[]) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 2; i < polygon.length; j = i, i += 2) {
+    const [xi, yi, xj, yj] = [polygon[i], polygon[i + 1], polygon[j], polygon[j + 1]]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export const getRectPolygon = ({ x, y, width, height }: Bounds) => [x, y, x + width, y, x + width, y + height, x, y + height]
+
+/** Marquee bounds from its two corners, whichever way it was dragged. */
+export const getCornerBounds = (start: { x: number; y: number }, end: { x: number; y: number }): Bounds => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+})
+
+/** Ids of the strokes mostly inside `polygon`. */
+export const pickStrokes = (strokes: DrawingStroke[], polygon: number[]) => {
+  if (polygon.length < 6) return []
+  return strokes
+    .filter((stroke) => {
+      const count = stroke.points.length / 2
+      let inside = 0
+      for (let i = 0; i < stroke.points.length; i += 2) {
+        if (isPointInPolygon(stroke.points[i], stroke.points[i + 1], polygon)) inside += 1
+      }
+      return count > 0 && inside / count >= SELECTION_COVERAGE
+    })
+    .map((stroke) => stroke.id)
+}
+
+/** Box around the strokes, including half their width on every side; null for no strokes. */
+export const getStrokesBounds = (strokes: DrawingStroke[]): Bounds | null => {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  strokes.forEach((stroke) => {
+    const reach = (stroke.size * Math.max(1, ...(stroke.widths ?? [1]))) / 2
+    for (let i = 0; i < stroke.points.length; i += 2) {
+      minX = Math.min(minX, stroke.points[i] - reach)
+      minY = Math.min(minY, stroke.points[i + 1] - reach)
+      maxX = Math.max(maxX, stroke.points[i] + reach)
+      maxY = Math.max(maxY, stroke.points[i + 1] + reach)
+    }
+  })
+  if (!Number.isFinite(minX)) return null
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/** Moves every point through `matrix`; brush sizes follow the average scale so strokes keep their weight. */
+export const transformStrokes = (strokes: DrawingStroke[], [a, b, c, d, e, f]: AffineMatrix): DrawingStroke[] => {
+  const sizeScale = Math.sqrt(Math.abs(a * d - b * c))
+  return strokes.map((stroke) => {
+    const points: number[] = []
+    for (let i = 0; i < stroke.points.length; i += 2) {
+      const x = stroke.points[i]
+      const y = stroke.points[i + 1]
+      points.push(a * x + c * y + e, b * x + d * y + f)
+    }
+    return { ...stroke, points, size: Math.max(0.5, stroke.size * sizeScale) }
+  })
+}
+
+/** Mirror matrix across the vertical (horizontal flip) or horizontal centre line of `bounds`. */
+export const getFlipMatrix = (bounds: Bounds, axis: 'horizontal' | 'vertical'): AffineMatrix => {
+  const centerX = bounds.x + bounds.width / 2
+  const centerY = bounds.y + bounds.height / 2
+  return axis === 'horizontal' ? [-1, 0, 0, 1, centerX * 2, 0] : [1, 0, 0, -1, 0, centerY * 2]
+}
+
+/** Copies with fresh ids, for pasting next to (or on top of) the originals. */
+export const cloneStrokes = (strokes: DrawingStroke[]) => strokes.map((stroke) => ({ ...stroke, id: uuidv4() }))
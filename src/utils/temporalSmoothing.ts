@@ -0,0 +1,142 @@
+// Blends edge strength across neighbouring frames so traced lines stop "boiling" on playback
+
+export interface EdgeField {
+  magnitude: Float32Array  // 0-1 edge strength per pixel
+  gradX: Float32Array
+  gradY: Float32Array
+  width: number
+  height: number
+}
+
+export interface FrameShift {
+  dx: number
+  dy: number
+}
+
+const COARSE_SCALE = 4
+const COARSE_SEARCH = 6  // ±24px at full resolution
+const FINE_SEARCH = 2
+
+const downsample = (values: Float32Array, width: number, height: number, scale: number) => {
+  const smallWidth = Math.max(1, Math.floor(width / scale))
+  const smallHeight = Math.max(1, Math.floor(height / scale))
+  const small = new Float32Array(smallWidth * smallHeight)
+  for (let y = 0; y < smallHeight * scale && y < height; y += 1) {
+    const row = Math.floor(y / scale) * smallWidth
+    for (let x = 0; x < smallWidth * scale && x < width; x += 1) {
+      small[row + Math.floor(x / scale)] += values[y * width + x]
+    }
+  }
+  const area = scale * scale
+  for (let i = 0; i < small.length; i += 1) small[i] /= area
+  return { small, smallWidth, smallHeight }
+}
+
+// Mean absolute difference between `reference` and `moving` offset by (dx, dy), sampled every `step` px
+const alignmentError = (
+  reference: Float32Array,
+  moving: Float32Array,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number,
+  step: number,
+) => {
+  let total = 0
+  let count = 0
+  for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y += step) {
+    for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x += step) {
+      total += Math.abs(reference[y * width + x] - moving[(y + dy) * width + x + dx])
+      count += 1
+    }
+  }
+  return count ? total / count : Number.POSITIVE_INFINITY
+}
+
+const searchShift = (
+  reference: Float32Array,
+  moving: Float32Array,
+  width: number,
+  height: number,
+  center: FrameShift,
+  radius: number,
+  step: number,
+): FrameShift => {
+  let best = center
+  let bestError = Number.POSITIVE_INFINITY
+  for (let dy = center.dy - radius; dy <= center.dy + radius; dy += 1) {
+    for (let dx = center.dx - radius; dx <= center.dx + radius; dx += 1) {
+      const error = alignmentError(reference, moving, width, height, dx, dy, step)
+      if (error < bestError) {
+        bestError = error
+        best = { dx, dy }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Global translation that lines `moving` up with `reference`: pixel (x, y) of the reference matches
+ * (x + dx, y + dy) of the neighbour. Coarse search on a quarter-size copy, then refined at full size.
+ */
+export const estimateFrameShift = (reference: EdgeField, moving: EdgeField): FrameShift => {
+  const { width, height } = reference
+  const coarseReference = downsample(reference.magnitude, width, height, COARSE_SCALE)
+  const coarseMoving = downsample(moving.magnitude, width, height, COARSE_SCALE)
+  const coarse = searchShift(
+    coarseReference.small,
+    coarseMoving.small,
+    coarseReference.smallWidth,
+    coarseReference.smallHeight,
+    { dx: 0, dy: 0 },
+    COARSE_SEARCH,
+    1,
+  )
+  return searchShift(
+    reference.magnitude,
+    moving.magnitude,
+    width,
+    height,
+    { dx: coarse.dx * COARSE_SCALE, dy: coarse.dy * COARSE_SCALE },
+    FINE_SEARCH,
+    2,
+  )
+}
+
+/**
+ * Mixes the average edge strength of `neighbours` into `current` by `strength` (0-1). Neighbours of a
+ * different size are ignored; with `motionCompensated` each one is shifted into place first.
+ */
+export const blendEdgeMagnitudes = (
+  current: EdgeField,
+  neighbours: EdgeField[],
+  strength: number,
+  motionCompensated: boolean,
+): Float32Array => {
+  const { width, height, magnitude } = current
+  const usable = neighbours.filter((neighbour) => neighbour.width === width && neighbour.height === height)
+  if (!usable.length || strength <= 0) return magnitude
+
+  const shifts = usable.map((neighbour) =>
+    motionCompensated ? estimateFrameShift(current, neighbour) : { dx: 0, dy: 0 },
+  )
+  const blended = new Float32Array(magnitude.length)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x
+      let total = 0
+      usable.forEach((neighbour, neighbourIndex) => {
+        const sourceX = x + shifts[neighbourIndex].dx
+        const sourceY = y + shifts[neighbourIndex].dy
+        // Pixels shifted in from outside the neighbour fall back to this frame's own value
+        total +=
+          sourceX >= 0 && sourceY >= 0 && sourceX < width && sourceY < height
+            ? neighbour.magnitude[sourceY * width + sourceX]
+            : magnitude[index]
+      })
+      blended[index] = (1 - strength) * magnitude[index] + (strength * total) / usable.length
+    }
+  }
+  return blended
+}
@@ -0,0 +1,29 @@
+import type { FrameData } from '../types'
+
+export const MAX_FRAME_DURATION = 48
+
+export const clampFrameDuration = (duration: number) =>
+  Math.min(MAX_FRAME_DURATION, Math.max(1, Math.round(duration) || 1))
+
+export const getFrameDuration = (frame: Pick<FrameData, 'duration'>) =>
+  frame.duration ? clampFrameDuration(frame.duration) : 1
+
+export const getTotalTicks = (frames: FrameData[]) =>
+  frames.reduce((total, frame) => total + getFrameDuration(frame), 0)
+
+export const getFrameStartTick = (frames: FrameData[], frameIndex: number) => {
+  let tick = 0
+  for (let i = 0; i < frameIndex && i < frames.length; i++) {
+    tick += getFrameDuration(frames[i])
+  }
+  return tick
+}
+
+export const getFrameIndexAtTick = (frames: FrameData[], tick: number) => {
+  let remaining = tick
+  for (let i = 0; i < frames.length; i++) {
+    remaining -= getFrameDuration(frames[i])
+    if (remaining < 0) return i
+  }
+  return frames.length - 1
+}
@@ -0,0 +1,188 @@
+// Turns a binary line mask (1 = line pixel) into simplified polylines in pixel coordinates
+
+// Clockwise from north, as Zhang-Suen expects: P2..P9
+const RING: [number, number][] = [
+  [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1],
+]
+
+// Orthogonal neighbours first so walks follow the line instead of cutting diagonal corners
+const WALK_ORDER: [number, number][] = [
+  [0, -1], [1, 0], [0, 1], [-1, 0], [1, -1], [1, 1], [-1, 1], [-1, -1],
+]
+
+/** Zhang-Suen thinning: erodes line pixels until every line is a one-pixel-wide skeleton. */
+export const thinLines = (lines: Uint8Array, width: number, height: number): Uint8Array => {
+  const skeleton = lines.slice()
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height ? skeleton[y * width + x] : 0
+
+  let changed = true
+  while (changed) {
+    changed = false
+    for (let pass = 0; pass < 2; pass += 1) {
+      const removals: number[] = []
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          if (!skeleton[y * width + x]) continue
+          const ring = RING.map(([dx, dy]) => at(x + dx, y + dy))
+          const neighbours = ring.reduce<number>((sum, value) => sum + value, 0)
+          if (neighbours < 2 || neighbours > 6) continue
+          let transitions = 0
+          for (let i = 0; i < 8; i += 1) {
+            if (!ring[i] && ring[(i + 1) % 8]) transitions += 1
+          }
+          if (transitions !== 1) continue
+          const [p2, , p4, , p6, , p8] = ring
+          const keep = pass === 0 ? p2 * p4 * p6 || p4 * p6 * p8 : p2 * p4 * p8 || p2 * p6 * p8
+          if (!keep) removals.push(y * width + x)
+        }
+      }
+      removals.forEach((index) => {
+        skeleton[index] = 0
+      })
+      if (removals.length) changed = true
+    }
+  }
+  return skeleton
+}
+
+/** Walks a skeleton into pixel paths, split at endpoints and junctions; closed loops become one path. */
+export const traceSkeletonPaths = (skeleton: Uint8Array, width: number, height: number): number[][] => {
+  const isLine = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && skeleton[y * width + x] === 1
+  // Crossing number (line runs around the 8-neighbour ring): 1 at endpoints, 2 along a line,
+  // 3+ at junctions; unlike a plain neighbour count it is not fooled by 8-connected corners
+  const isNode = (x: number, y: number) => {
+    let transitions = 0
+    for (let i = 0; i < 8; i += 1) {
+      const [dx, dy] = RING[i]
+      const [nextDx, nextDy] = RING[(i + 1) % 8]
+      if (!isLine(x + dx, y + dy) && isLine(x + nextDx, y + nextDy)) transitions += 1
+    }
+    return transitions !== 2
+  }
+
+  const visited = new Uint8Array(skeleton.length)
+  const paths: number[][] = []
+
+  const walk = (startX: number, startY: number, firstX: number, firstY: number) => {
+    const startIndex = startY * width + startX
+    const path = [startX, startY]
+    let previous = startIndex
+    let x = firstX
+    let y = firstY
+    for (;;) {
+      path.push(x, y)
+      const index = y * width + x
+      if (index === startIndex || isNode(x, y)) break
+      visited[index] = 1
+      const next = WALK_ORDER.map(([dx, dy]) => [x + dx, y + dy]).find(([nx, ny]) => {
+        const nextIndex = ny * width + nx
+        // The start pixel is allowed back in so closed loops end where they began
+        return isLine(nx, ny) && nextIndex !== previous && (!visited[nextIndex] || nextIndex === startIndex)
+      })
+      if (!next) break
+      previous = index
+      ;[x, y] = next
+    }
+    paths.push(path)
+  }
+
+  // Open paths run between endpoints and junctions
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (!isLine(x, y) || !isNode(x, y)) continue
+      const index = y * width + x
+      for (const [dx, dy] of WALK_ORDER) {
+        const nx = x + dx
+        const ny = y + dy
+        if (!isLine(nx, ny)) continue
+        const neighbourIndex = ny * width + nx
+        if (isNode(nx, ny)) {
+          // Neighbouring nodes (e.g. the pixels of one junction) are linked once so lines stay joined
+          if (neighbourIndex > index) paths.push([x, y, nx, ny])
+        } else if (!visited[neighbourIndex]) {
+          walk(x, y, nx, ny)
+        }
+      }
+    }
+  }
+
+  // Whatever is left is made of closed loops with no junctions
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = y * width + x
+      if (!isLine(x, y) || isNode(x, y) || visited[index]) continue
+      visited[index] = 1
+      const first = WALK_ORDER.map(([dx, dy]) => [x + dx, y + dy]).find(
+        ([nx, ny]) => isLine(nx, ny) && !visited[ny * width + nx],
+      )
+      if (first) walk(x, y, first[0], first[1])
+    }
+  }
+
+  return paths
+}
+
+const perpendicularDistance = (
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+) => {
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSquared = dx * dx + dy * dy
+  if (!lengthSquared) return Math.hypot(px - ax, py - ay)
+  return Math.abs(dy * px - dx * py + bx * ay - by * ax) / Math.sqrt(lengthSquared)
+}
+
+/** Ramer-Douglas-Peucker simplification of a flat [x, y, x, y, …] polyline. */
+export const simplifyPolyline = (points: number[], tolerance: number): number[] => {
+  const count = points.length / 2
+  if (count <= 2 || tolerance <= 0) return points
+  const keep = new Uint8Array(count)
+  keep[0] = 1
+  keep[count - 1] = 1
+  const stack: [number, number][] = [[0, count - 1]]
+  while (stack.length) {
+    const [start, end] = stack.pop()!
+    let farthest = -1
+    let farthestDistance = tolerance
+    for (let i = start + 1; i < end; i += 1) {
+      const distance = perpendicularDistance(
+        points[i * 2],
+        points[i * 2 + 1],
+        points[start * 2],
+        points[start * 2 + 1],
+        points[end * 2],
+        points[end * 2 + 1],
+      )
+      if (distance > farthestDistance) {
+        farthest = i
+        farthestDistance = distance
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = 1
+      stack.push([start, farthest], [farthest, end])
+    }
+  }
+  const simplified: number[] = []
+  keep.forEach((kept, index) => {
+    if (kept) simplified.push(points[index * 2], points[index * 2 + 1])
+  })
+  return simplified
+}
+
+export const vectorizeLines = (
+  lines: Uint8Array,
+  width: number,
+  height: number,
+  tolerance: number,
+): number[][] =>
+  traceSkeletonPaths(thinLines(lines, width, height), width, height)
+    .map((path) => simplifyPolyline(path, tolerance))
+    .filter((path) => path.length >= 4)
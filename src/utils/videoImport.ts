@@ -0,0 +1,219 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg'
+import { fetchFile } from '@ffmpeg/util'
+import type { AnimatorProject, AssetId, CropRect, VideoImportOptions, VideoPlacement, VideoRotation } from '../types'
+import { getAssetBlob, putAsset } from './assets'
+import { DEFAULT_FPS, getProjectFps } from './project'
+import { getFrameStartTick } from './timing'
+
+export const MAX_SIDE_PRESETS = [1920, 1280, 960, 720, 480]
+export const DEFAULT_MAX_SIDE = 720
+
+const ROTATION_FILTERS: Record<VideoRotation, string[]> = {
+  0: [],
+  90: ['transpose=clock'],
+  180: ['hflip', 'vflip'],
+  270: ['transpose=cclock'],
+}
+
+export const createVideoImportOptions = (duration: number, fps: number = DEFAULT_FPS): VideoImportOptions => ({
+  placement: 'new-project',
+  position: 1,
+  fps,
+  start: 0,
+  end: duration,
+  maxSide: DEFAULT_MAX_SIDE,
+  crop: null,
+  rotation: 0,
+})
+
+// yuv420 encoders (the MP4 export) need even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2)
+
+/** Frame size the import will produce for a source of this size. */
+export const getImportOutputSize = (options: VideoImportOptions, sourceWidth: number, sourceHeight: number) => {
+  const cropped: CropRect = options.crop ?? { x: 0, y: 0, width: sourceWidth, height: sourceHeight }
+  const turned = options.rotation === 90 || options.rotation === 270
+  const width = turned ? cropped.height : cropped.width
+  const height = turned ? cropped.width : cropped.height
+  const scale = options.maxSide ? Math.min(1, options.maxSide / Math.max(width, height)) : 1
+  return { width: toEven(width * scale), height: toEven(height * scale) }
+}
+
+export const estimateImportFrameCount = (options: VideoImportOptions) =>
+  Math.max(1, Math.round((options.end - options.start) * options.fps))
+
+/** Input-side seek and duration, so FFmpeg only decodes the chosen range. */
+export const buildTrimArgs = (options: VideoImportOptions) => [
+  '-ss',
+  options.start.toFixed(3),
+  '-t',
+  Math.max(0.001, options.end - options.start).toFixed(3),
+]
+
+/** Scales into `fitTo` without cropping and pads the rest with transparency, centred. */
+export const buildFitFilter = ({ width, height }: { width: number; height: number }) =>
+  [
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos`,
+    'format=rgba',
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black@0`,
+  ].join(',')
+
+/**
+ * `-vf` chain: sample at the project rate, crop, rotate, then fit the longest side. With `fitTo` the
+ * frames are letterboxed onto that exact size instead, so they line up as a layer of existing frames.
+ */
+export const buildVideoFilter = (options: VideoImportOptions, fitTo?: { width: number; height: number }) => {
+  const filters = [`fps=${options.fps}`]
+  if (options.crop) {
+    const { x, y, width, height } = options.crop
+    filters.push(`crop=${Math.round(width)}:${Math.round(height)}:${Math.round(x)}:${Math.round(y)}`)
+  }
+  filters.push(...ROTATION_FILTERS[options.rotation])
+  if (fitTo) {
+    filters.push(buildFitFilter(fitTo))
+  } else if (options.maxSide) {
+    const side = options.maxSide
+    // Fits whichever side is longer and never upscales; -2 keeps the other side even
+    filters.push(
+      `scale='if(gte(iw,ih),min(${side},iw),-2)':'if(gte(iw,ih),-2,min(${side},ih))':flags=lanczos`,
+    )
+  } else {
+    filters.push('scale=trunc(iw/2)*2:trunc(ih/2)*2:flags=lanczos')
+  }
+  return filters.join(',')
+}
+
+const AUDIO_FORMAT = 'aformat=sample_rates=44100:channel_layouts=stereo'
+
+const silence = (seconds: string) => `anullsrc=r=44100:cl=stereo,atrim=duration=${seconds}`
+
+export interface AudioSplice {
+  projectAudio: string | null  // FFmpeg file names; null when that side has no audio
+  clipAudio: string | null
+  at: number  // Seconds into the project where the clip starts
+  clipDuration: number  // Seconds of timeline the clip's frames cover
+  placement: Exclude<VideoPlacement, 'new-project'>
+  output: string
+}
+
+/**
+ * Args that splice a clip's audio into the project's: inserted frames push the rest of the soundtrack
+ * back by the clip's length, a new layer mixes the clip in from its first frame. Missing audio on
+ * either side is treated as silence; null means the soundtrack would not change.
+ */
+export const buildAudioSpliceArgs = ({
+  projectAudio,
+  clipAudio,
+  at,
+  clipDuration,
+  placement,
+  output,
+}: AudioSplice): string[] | null => {
+  if (!clipAudio && (placement === 'add-layer' || !projectAudio)) return null
+
+  const inputs: string[] = []
+  const addInput = (name: string) => {
+    inputs.push('-i', name)
+    return `[${inputs.length / 2 - 1}:a]`
+  }
+  const project = projectAudio ? addInput(projectAudio) : null
+  const clip = clipAudio ? addInput(clipAudio) : null
+  const start = at.toFixed(3)
+  const length = Math.max(0.001, clipDuration).toFixed(3)
+  // Padded and cut to the exact length so everything after the clip stays in sync with the frames
+  const clipTrack = clip
+    ? `${clip}atrim=0:${length},asetpts=PTS-STARTPTS,${AUDIO_FORMAT},apad=whole_dur=${length}`
+    : silence(length)
+
+  const filters: string[] = []
+  if (placement === 'add-layer') {
+    const delay = `adelay=delays=${Math.round(at * 1000)}:all=1`
+    if (project) {
+      filters.push(
+        `${clipTrack},${delay}[clip]`,
+        `${project}${AUDIO_FORMAT}[base]`,
+        '[base][clip]amix=inputs=2:duration=longest:normalize=0[out]',
+      )
+    } else {
+      filters.push(`${clipTrack},${delay}[out]`)
+    }
+  } else {
+    const segments: string[] = []
+    let tailSource = project
+    if (at > 0) {
+      if (project) {
+        // An input pad can only feed one filter, so the soundtrack is split for the head and tail
+        filters.push(`${project}asplit=2[headsource][tailsource]`)
+        filters.push(`[headsource]atrim=0:${start},asetpts=PTS-STARTPTS,${AUDIO_FORMAT},apad=whole_dur=${start}[head]`)
+        tailSource = '[tailsource]'
+      } else {
+        filters.push(`${silence(start)}[head]`)
+      }
+      segments.push('[head]')
+    }
+    filters.push(`${clipTrack}[clip]`)
+    segments.push('[clip]')
+    if (tailSource) {
+      filters.push(`${tailSource}atrim=start=${start},asetpts=PTS-STARTPTS,${AUDIO_FORMAT}[tail]`)
+      segments.push('[tail]')
+    }
+    filters.push(`${segments.join('')}concat=n=${segments.length}:v=0:a=1[out]`)
+  }
+
+  return [
+    ...inputs,
+    '-filter_complex',
+    filters.join(';'),
+    '-map',
+    '[out]',
+    '-acodec',
+    'libmp3lame',
+    '-q:a',
+    '4',
+    output,
+  ]
+}
+
+interface ProjectAudioSplice {
+  project: AnimatorProject
+  startIndex: number  // Frame index the new material starts at
+  clipAudio: string | null  // FFmpeg file name of the new material's audio, if it has any
+  clipDuration: number
+  placement: AudioSplice['placement']
+}
+
+/**
+ * Splices new material into the project's soundtrack and stores the result. On failure the frames
+ * are still worth keeping, so the soundtrack is left as it was.
+ */
+export const spliceProjectAudio = async (
+  ffmpeg: FFmpeg,
+  { project, startIndex, clipAudio, clipDuration, placement }: ProjectAudioSplice,
+): Promise<AssetId | undefined> => {
+  const projectAudio = project.audioId ? 'project-audio.mp3' : null
+  try {
+    const args = buildAudioSpliceArgs({
+      projectAudio,
+      clipAudio,
+      at: getFrameStartTick(project.frames, startIndex) / getProjectFps(project),
+      clipDuration,
+      placement,
+      output: 'audio.mp3',
+    })
+    if (!args) return project.audioId
+    if (project.audioId && projectAudio) {
+      await ffmpeg.writeFile(projectAudio, await fetchFile(await getAssetBlob(project.audioId)))
+    }
+    await ffmpeg.exec(args)
+    const audioData = (await ffmpeg.readFile('audio.mp3')) as Uint8Array
+    await ffmpeg.deleteFile('audio.mp3')
+    return await putAsset(new Blob([new Uint8Array(audioData)], { type: 'audio/mp3' }))
+  } catch (error) {
+    console.error('Audio splice failed:', error)
+    return project.audioId
+  } finally {
+    if (projectAudio) {
+      await ffmpeg.deleteFile(projectAudio).catch(() => {})
+    }
+  }
+}
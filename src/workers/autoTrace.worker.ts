@@ -0,0 +1,85 @@
+import type { AutoTraceWorkerRequest, AutoTraceWorkerResponse, TraceSource } from '../utils/autoTraceWorker'
+import { computeEdgeField, renderOutlinePixels, traceLines, traceStrokes } from '../utils/outline'
+import { blendEdgeMagnitudes } from '../utils/temporalSmoothing'
+import type { EdgeField } from '../utils/temporalSmoothing'
+import type { TraceSettings } from '../types'
+
+const respond = (response: AutoTraceWorkerResponse) => self.postMessage(response)
+
+// With temporal smoothing each frame is also a neighbour of the frames on either side, so the last
+// few edge fields are kept instead of being recomputed up to three times per run
+const EDGE_CACHE_SIZE = 4
+const edgeCache = new Map<string, Promise<EdgeField>>()
+
+const decodeImage = async (image: Blob) => {
+  const bitmap = await createImageBitmap(image)
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Unable to derive 2d context for outline generation')
+  }
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return { canvas, ctx }
+}
+
+const getEdgeField = (source: TraceSource, settings: TraceSettings) => {
+  const key = `${source.imageId}:${settings.mode}:${settings.blurRadius}`
+  const cached = edgeCache.get(key)
+  if (cached) return cached
+  const field = decodeImage(source.image).then(({ canvas, ctx }) =>
+    computeEdgeField(ctx.getImageData(0, 0, canvas.width, canvas.height), source.personProbabilities, settings),
+  )
+  field.catch(() => edgeCache.delete(key))
+  edgeCache.set(key, field)
+  if (edgeCache.size > EDGE_CACHE_SIZE) {
+    edgeCache.delete(edgeCache.keys().next().value!)
+  }
+  return field
+}
+
+const traceRequest = async ({ id, source, neighbours, settings, preview }: AutoTraceWorkerRequest) => {
+  const field = await getEdgeField(source, settings)
+  const neighbourFields = await Promise.all(neighbours.map((neighbour) => getEdgeField(neighbour, settings)))
+  const magnitude = blendEdgeMagnitudes(field, neighbourFields, settings.temporalSmoothing, settings.motionCompensation)
+  const traced = traceLines(field, settings, magnitude)
+
+  const canvas = new OffscreenCanvas(field.width, field.height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Unable to paint outline result')
+  }
+
+  if (settings.output === 'strokes') {
+    const strokes = traceStrokes(traced, settings)
+    if (!preview) {
+      respond({ id, strokes })
+      return
+    }
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.strokeStyle = settings.lineColor
+    ctx.lineWidth = settings.lineThickness
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    strokes.forEach(({ points }) => {
+      ctx.beginPath()
+      ctx.moveTo(points[0], points[1])
+      for (let i = 2; i < points.length; i += 2) {
+        ctx.lineTo(points[i], points[i + 1])
+      }
+      ctx.stroke()
+    })
+    respond({ id, strokes, outline: await canvas.convertToBlob({ type: 'image/png' }) })
+    return
+  }
+
+  ctx.putImageData(renderOutlinePixels(traced, settings), 0, 0)
+  respond({ id, outline: await canvas.convertToBlob({ type: 'image/png' }) })
+}
+
+self.onmessage = (event: MessageEvent<AutoTraceWorkerRequest>) => {
+  traceRequest(event.data).catch((error) => {
+    respond({ id: event.data.id, error: error instanceof Error ? error.message : String(error) })
+  })
+}